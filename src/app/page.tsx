@@ -1,14 +1,40 @@
 'use client';
 
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import dynamic from 'next/dynamic';
-import { CanvasState, TextLayer, ExportOptions } from '@/types';
-import { createDefaultTextLayer, getNextZIndex, normalizeZIndexes } from '@/lib/utils';
+import { CanvasState, CanvasBackground, PathPoint, TextLayer, ExportOptions } from '@/types';
+import { createDefaultTextLayer, getNextZIndex, normalizeZIndexes, hasCanvas, calculateAspectRatioFit, downloadBlob, MAX_DESIGN_WIDTH, MAX_DESIGN_HEIGHT } from '@/lib/utils';
+import { exportComposition } from '@/lib/export';
+import { fitTextLayer, getMeasureContext } from '@/lib/text';
+import { AlignMode, AlignTarget, DistributeAxis, alignLayers, distributeLayers, getLayersBounds } from '@/lib/align';
+import { getSelectedLayers } from '@/lib/selection';
+import { getProjectFonts, loadProjectFonts, parseProject, projectToCanvasState, serializeProject, PROJECT_FILE_EXTENSION } from '@/lib/project';
+import { TextRange, applyLayerUpdates } from '@/lib/spans';
+import { toPathPoints } from '@/lib/textPath';
+import { DEFAULT_SNAP_THRESHOLD } from '@/lib/snapping';
+import { Viewport, ViewportSize, ZOOM_STEP, centerViewport, fitViewport, zoomAround } from '@/lib/viewport';
+import {
+  HistoryChange,
+  HistoryState,
+  createHistory,
+  recordChange,
+  undo as undoHistory,
+  redo as redoHistory,
+  jumpTo,
+  canUndo as canUndoHistory,
+  canRedo as canRedoHistory,
+  describeLayerUpdate,
+  getLayersLabel,
+} from '@/lib/history';
+import { createProjectId, loadProject, saveProject } from '@/lib/projectStore';
 import ImageUpload from '@/components/ImageUpload';
+import BlankCanvasForm from '@/components/BlankCanvasForm';
 import TextProperties from '@/components/TextProperties';
 import LayersPanel from '@/components/LayersPanel';
 import ExportPanel from '@/components/ExportPanel';
 import HistoryIndicator from '@/components/HistoryIndicator';
+import AlignPanel from '@/components/AlignPanel';
+import ProjectPicker from '@/components/ProjectPicker';
 import {
   Loader2
 } from 'lucide-react';
@@ -30,228 +56,421 @@ export default function Home() {
     imageWidth: 0,
     imageHeight: 0,
     textLayers: [],
-    selectedLayerId: null,
+    selectedLayerIds: [],
   });
 
   const [activeTab, setActiveTab] = useState<'upload' | 'properties' | 'layers' | 'export'>('upload');
-  const [history, setHistory] = useState<CanvasState[]>([]);
-  const [historyIndex, setHistoryIndex] = useState(-1);
-  const [zoom, setZoom] = useState(1);
+  const [history, setHistory] = useState<HistoryState>(createHistory);
+  const [viewport, setViewport] = useState<Viewport>({ zoom: 1, panX: 0, panY: 0 });
+  const [viewportSize, setViewportSize] = useState<ViewportSize | null>(null);
   const [showGrid, setShowGrid] = useState(false);
+  const [showRulers, setShowRulers] = useState(false);
+  // Smart guide snap distance in screen pixels; 0 turns snapping off
+  const [snapThreshold, setSnapThreshold] = useState(DEFAULT_SNAP_THRESHOLD);
+  // Characters selected in a layer's text, which style edits then apply to
+  const [textSelection, setTextSelection] = useState<TextRange | null>(null);
+  // Layer whose text path is being drawn on the canvas
+  const [pathDrawingLayerId, setPathDrawingLayerId] = useState<string | null>(null);
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [projectName, setProjectName] = useState('Untitled design');
+  const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+  const [showProjectPicker, setShowProjectPicker] = useState(false);
+
+  // Last state written to the library, and the image stored with it
+  const savedStateRef = useRef<CanvasState | null>(null);
+  const savedImageRef = useRef<{ projectId: string | null; image: string | null }>({ projectId: null, image: null });
 
   // Autosave functionality
-  const AUTOSAVE_KEY = 'image-text-composer-design';
-  const MAX_HISTORY_STEPS = 20;
+  const LEGACY_AUTOSAVE_KEY = 'image-text-composer-design';
+  const CURRENT_PROJECT_KEY = 'image-text-composer-current-project';
+  const PREFERENCES_KEY = 'image-text-composer-preferences';
+  const AUTOSAVE_DELAY = 1000;
 
-  // Initialize history with initial state
+  // Latest canvas state, so changes can be diffed without stale closures
+  const stateRef = useRef(canvasState);
   useEffect(() => {
-    if (history.length === 0) {
-      // Don't initialize with the initial state to prevent progress issues
-      // The first action will create the first history entry
-    }
-  }, [canvasState, history.length]);
+    stateRef.current = canvasState;
+  }, [canvasState]);
 
-  // Debug: Monitor history changes
-  useEffect(() => {
-    console.log('History state changed:', {
-      historyLength: history.length,
-      historyIndex,
-      canUndo: historyIndex > 0,
-      canRedo: historyIndex < history.length - 1
-    });
-  }, [history, historyIndex]);
-
-  // Load saved design on component mount
+  // Current project, so a pending autosave can be flushed from any callback
+  const projectRef = useRef({ id: projectId, name: projectName });
   useEffect(() => {
+    projectRef.current = { id: projectId, name: projectName };
+  }, [projectId, projectName]);
+
+  // Writes the current design to the library if it changed since the last save
+  const saveNow = useCallback(async () => {
+    const { id, name } = projectRef.current;
+    const state = stateRef.current;
+    if (!id || !hasCanvas(state) || state === savedStateRef.current) return;
+
+    // Layer edits don't rewrite the (possibly large) image blob
+    const saved = savedImageRef.current;
+    const saveImage = saved.projectId !== id || saved.image !== state.image;
+
+    setSaveStatus('saving');
     try {
-      const savedDesign = localStorage.getItem(AUTOSAVE_KEY);
-      if (savedDesign) {
-        const parsedDesign = JSON.parse(savedDesign);
-        setCanvasState(parsedDesign);
-        // Initialize history with the loaded state
-        setHistory([parsedDesign]);
-        setHistoryIndex(0);
-      }
+      await saveProject(id, name, state, { saveImage });
+      savedStateRef.current = state;
+      savedImageRef.current = { projectId: id, image: state.image };
+      setSaveStatus('saved');
     } catch (error) {
-      console.warn('Failed to load saved design:', error);
+      console.error('Failed to save project:', error);
+      setSaveStatus('error');
+    }
+  }, []);
+
+  // Replaces the whole document and starts a fresh history, saving any
+  // pending edits to the current project first
+  const resetDocument = useCallback(async (state: CanvasState) => {
+    await saveNow();
+    stateRef.current = state;
+    setCanvasState(state);
+    setHistory(createHistory());
+  }, [saveNow]);
+
+  // Applies a change to the canvas; a history entry is recorded when
+  // `change` is given and a tracked field actually changed
+  const applyChange = useCallback((recipe: (prevState: CanvasState) => CanvasState, change?: HistoryChange) => {
+    const prevState = stateRef.current;
+    const newState = recipe(prevState);
+    if (newState === prevState) return;
+
+    stateRef.current = newState;
+    setCanvasState(newState);
+    if (change) {
+      setHistory(prevHistory => recordChange(prevHistory, prevState, newState, change));
     }
   }, []);
 
-  // Autosave design whenever canvas state changes
+  const openStoredProject = useCallback(async (id: string) => {
+    await saveNow();
+    const { summary, state } = await loadProject(id);
+    await loadProjectFonts(getProjectFonts(state));
+    savedStateRef.current = state;
+    savedImageRef.current = { projectId: id, image: state.image };
+
+    await resetDocument(state);
+    setProjectId(id);
+    setProjectName(summary.name);
+    setSaveStatus('saved');
+    localStorage.setItem(CURRENT_PROJECT_KEY, id);
+  }, [resetDocument, saveNow]);
+
+  // Starts a new library entry; the autosave below writes it
+  const startProject = useCallback((name: string) => {
+    const id = createProjectId();
+    setProjectId(id);
+    setProjectName(name);
+    setSaveStatus('idle');
+    localStorage.setItem(CURRENT_PROJECT_KEY, id);
+  }, []);
+
+  // Reopen the last project on mount
   useEffect(() => {
-    if (canvasState.image) { // Only save if there's an image
+    const restore = async () => {
       try {
-        localStorage.setItem(AUTOSAVE_KEY, JSON.stringify(canvasState));
+        // Move the old single-slot localStorage autosave into the library
+        const legacyDesign = localStorage.getItem(LEGACY_AUTOSAVE_KEY);
+        if (legacyDesign) {
+          const state = projectToCanvasState(parseProject(legacyDesign));
+          const id = createProjectId();
+          await saveProject(id, 'Untitled design', state, { saveImage: true });
+          localStorage.removeItem(LEGACY_AUTOSAVE_KEY);
+          localStorage.setItem(CURRENT_PROJECT_KEY, id);
+        }
+
+        const currentId = localStorage.getItem(CURRENT_PROJECT_KEY);
+        if (currentId) {
+          await openStoredProject(currentId);
+        }
       } catch (error) {
-        console.warn('Failed to save design:', error);
+        console.warn('Failed to restore saved project:', error);
       }
+    };
+    restore();
+  }, [openStoredProject]);
+
+  // Editor preferences (grid, rulers, snapping) are kept across sessions;
+  // they are only written once the stored ones have been read
+  const preferencesLoadedRef = useRef(false);
+  useEffect(() => {
+    try {
+      const stored = JSON.parse(localStorage.getItem(PREFERENCES_KEY) || '{}');
+      if (typeof stored.showGrid === 'boolean') setShowGrid(stored.showGrid);
+      if (typeof stored.showRulers === 'boolean') setShowRulers(stored.showRulers);
+      if (typeof stored.snapThreshold === 'number') setSnapThreshold(stored.snapThreshold);
+    } catch (error) {
+      console.warn('Failed to read preferences:', error);
     }
-  }, [canvasState]);
+    preferencesLoadedRef.current = true;
+  }, []);
+
+  useEffect(() => {
+    if (!preferencesLoadedRef.current) return;
+    localStorage.setItem(PREFERENCES_KEY, JSON.stringify({ showGrid, showRulers, snapThreshold }));
+  }, [showGrid, showRulers, snapThreshold]);
+
+  // Autosave the current project to IndexedDB shortly after each change
+  useEffect(() => {
+    if (!projectId || !hasCanvas(canvasState) || canvasState === savedStateRef.current) return;
+
+    const timeout = setTimeout(saveNow, AUTOSAVE_DELAY);
+    return () => clearTimeout(timeout);
+  }, [canvasState, projectId, projectName, saveNow]);
 
   // Reset design function
-  const handleResetDesign = useCallback(() => {
-    // Clear localStorage
-    localStorage.removeItem(AUTOSAVE_KEY);
-    
+  const handleResetDesign = useCallback(async () => {
     // Reset to blank state
     const blankState: CanvasState = {
       image: null,
       imageWidth: 0,
       imageHeight: 0,
       textLayers: [],
-      selectedLayerId: null,
+      selectedLayerIds: [],
     };
     
-    setCanvasState(blankState);
-    setHistory([blankState]);
-    setHistoryIndex(0);
+    await resetDocument(blankState);
     setActiveTab('upload');
-  }, []);
 
-  // History management
-  const addToHistory = useCallback((newState: CanvasState) => {
-    setHistory(prevHistory => {
-      setHistoryIndex(prevIndex => {
-        // Remove any future history when adding a new state
-        const newHistory = prevHistory.slice(0, prevIndex + 1);
-        newHistory.push(newState);
-
-        // Calculate the new index before limiting history
-        let newIndex = newHistory.length - 1;
-
-        // Limit history to MAX_HISTORY_STEPS
-        if (newHistory.length > MAX_HISTORY_STEPS) {
-          newHistory.shift(); // Remove oldest entry
-          newIndex = MAX_HISTORY_STEPS - 1; // Adjust index after removing oldest
-        }
+    // Detach from the current project; it stays in the library
+    localStorage.removeItem(CURRENT_PROJECT_KEY);
+    setProjectId(null);
+    setSaveStatus('idle');
+  }, [resetDocument]);
 
-        return newIndex;
-      });
+  // The open project was deleted from the library. Detach before resetting
+  // so neither the reset nor a pending autosave writes it back.
+  const handleCurrentProjectDeleted = useCallback(() => {
+    projectRef.current = { id: null, name: projectRef.current.name };
+    setProjectId(null);
+    handleResetDesign();
+  }, [handleResetDesign]);
 
-      // Calculate the new history array (same logic as above)
-      const newHistory = prevHistory.slice(0, historyIndex + 1);
-      newHistory.push(newState);
+  // History management
+  const undo = useCallback(() => {
+    const result = undoHistory(history, stateRef.current);
+    if (!result) return;
 
-      // Limit history to MAX_HISTORY_STEPS
-      if (newHistory.length > MAX_HISTORY_STEPS) {
-        newHistory.shift(); // Remove oldest entry
-      }
+    stateRef.current = result.state;
+    setCanvasState(result.state);
+    setHistory(result.history);
+  }, [history]);
 
-      return newHistory;
-    });
-  }, [historyIndex]);
+  const redo = useCallback(() => {
+    const result = redoHistory(history, stateRef.current);
+    if (!result) return;
 
-  const undo = useCallback(() => {
-    if (historyIndex > 0) {
-      const newIndex = historyIndex - 1;
-      setHistoryIndex(newIndex);
-      setCanvasState(history[newIndex]);
-    }
-  }, [history, historyIndex]);
+    stateRef.current = result.state;
+    setCanvasState(result.state);
+    setHistory(result.history);
+  }, [history]);
 
-  const redo = useCallback(() => {
-    if (historyIndex < history.length - 1) {
-      const newIndex = historyIndex + 1;
-      setHistoryIndex(newIndex);
-      setCanvasState(history[newIndex]);
-    }
-  }, [history, historyIndex]);
+  const jumpToHistory = useCallback((index: number) => {
+    const result = jumpTo(history, stateRef.current, index);
+    stateRef.current = result.state;
+    setCanvasState(result.state);
+    setHistory(result.history);
+  }, [history]);
 
   // Canvas state management
-  const updateCanvas = useCallback((updates: Partial<CanvasState>) => {
-    setCanvasState(prevState => {
-      const newState = { ...prevState, ...updates };
-      addToHistory(newState);
-      return newState;
-    });
-  }, [addToHistory]);
-
-  const handleImageUpload = useCallback((imageData: string, width: number, height: number) => {
+  const updateCanvas = useCallback((updates: Partial<CanvasState>, change?: HistoryChange) => {
+    applyChange(prevState => ({ ...prevState, ...updates }), change ?? { label: 'Edit canvas' });
+  }, [applyChange]);
+
+  const handleImageUpload = useCallback(async (imageData: string, width: number, height: number, sourceWidth: number, sourceHeight: number) => {
+    // Whole design pixels keep the canvas backing store and export sizes exact
     const newState: CanvasState = {
       image: imageData,
-      imageWidth: width,
-      imageHeight: height,
+      imageWidth: Math.round(width),
+      imageHeight: Math.round(height),
+      sourceWidth,
+      sourceHeight,
       textLayers: [],
-      selectedLayerId: null,
+      selectedLayerIds: [],
     };
 
     // Reset history when uploading a new image (fresh start)
-    setCanvasState(newState);
-    setHistory([newState]);
-    setHistoryIndex(0);
+    await resetDocument(newState);
     setActiveTab('properties');
-  }, []);
+    startProject('Untitled design');
+  }, [resetDocument, startProject]);
 
-  const handleSelectLayer = useCallback((layerId: string | null) => {
-    setCanvasState(prevState => {
-      const newState = { ...prevState, selectedLayerId: layerId };
-      addToHistory(newState);
-      return newState;
-    });
-    if (layerId) {
-      setActiveTab('properties');
-    }
-  }, [addToHistory]);
+  const handleCreateBlankCanvas = useCallback(async (width: number, height: number, background: CanvasBackground) => {
+    // Large canvases are edited at a fitted design size and exported at full size
+    const designSize = width > MAX_DESIGN_WIDTH || height > MAX_DESIGN_HEIGHT
+      ? calculateAspectRatioFit(width, height, MAX_DESIGN_WIDTH, MAX_DESIGN_HEIGHT)
+      : { width, height };
 
-  const handleUpdateLayer = useCallback((updates: Partial<TextLayer>) => {
-    setCanvasState(prevState => {
-      if (!prevState.selectedLayerId) {
-        return prevState;
-      }
+    // Whole design pixels keep the canvas backing store and export sizes exact
+    const newState: CanvasState = {
+      image: null,
+      imageWidth: Math.round(designSize.width),
+      imageHeight: Math.round(designSize.height),
+      sourceWidth: width,
+      sourceHeight: height,
+      background,
+      textLayers: [],
+      selectedLayerIds: [],
+    };
 
-      console.log('Updating layer:', prevState.selectedLayerId);
-      const updatedLayers = prevState.textLayers.map(layer =>
-        layer.id === prevState.selectedLayerId ? { ...layer, ...updates } : layer
-      );
+    await resetDocument(newState);
+    setActiveTab('properties');
+    startProject('Untitled design');
+  }, [resetDocument, startProject]);
+
+  // Project files
+  const handleSaveProject = useCallback(() => {
+    if (!hasCanvas(canvasState)) return;
+
+    const blob = new Blob([serializeProject(canvasState)], { type: 'application/json' });
+    downloadBlob(blob, `image-text-composer-${Date.now()}${PROJECT_FILE_EXTENSION}`);
+  }, [canvasState]);
+
+  const handleOpenProject = useCallback(async (file: File) => {
+    try {
+      const project = parseProject(await file.text());
+      await loadProjectFonts(project.fonts);
 
-      const newState = { ...prevState, textLayers: updatedLayers };
-      console.log('New state:', newState);
-      addToHistory(newState);
-      return newState;
-    });
-  }, [addToHistory]);
-
-  const handleDeleteLayer = useCallback((layerId: string) => {
-    setCanvasState(prevState => {
-      const updatedLayers = prevState.textLayers.filter(layer => layer.id !== layerId);
-      const newSelectedLayerId = prevState.selectedLayerId === layerId ? null : prevState.selectedLayerId;
+      const newState = projectToCanvasState(project);
+      await resetDocument(newState);
+      setActiveTab(newState.textLayers.length > 0 ? 'layers' : 'properties');
+      startProject(file.name.replace(/\.[^.]+$/, '') || 'Untitled design');
+    } catch (error) {
+      console.error('Failed to open project:', error);
+      alert(`Failed to open project: ${error instanceof Error ? error.message : 'unknown error'}`);
+    }
+  }, [resetDocument, startProject]);
+
+  const handleOpenStoredProject = useCallback(async (id: string) => {
+    try {
+      await openStoredProject(id);
+      setShowProjectPicker(false);
+      setActiveTab('layers');
+    } catch (error) {
+      console.error('Failed to open project:', error);
+      alert('Failed to open project. Please try again.');
+    }
+  }, [openStoredProject]);
+
+  const handleSelectLayers = useCallback((layerIds: string[], showProperties: boolean = true) => {
+    // Selection alone is not an undo step
+    applyChange(prevState => ({ ...prevState, selectedLayerIds: layerIds }));
+    setTextSelection(null);
+    if (showProperties && layerIds.length > 0) {
+      setActiveTab('properties');
+    }
+  }, [applyChange]);
+
+  // Applies the same property updates to every selected layer
+  const handleUpdateLayers = useCallback((updates: Partial<TextLayer>) => {
+    const selected = getSelectedLayers(stateRef.current);
+    if (selected.length === 0) return;
+
+    const ids = selected.map(layer => layer.id);
+    applyChange(prevState => ({
+      ...prevState,
+      textLayers: prevState.textLayers.map(layer => {
+        if (!ids.includes(layer.id)) return layer;
+        // Re-measure each layer, since the same update lays out differently per layer
+        return fitTextLayer(applyLayerUpdates(layer, updates));
+      }),
+    }), describeLayerUpdate(selected, updates));
+  }, [applyChange]);
+
+  // Lays the drawing layer's text along the curve drawn on the canvas
+  const handlePathDrawn = useCallback((points: PathPoint[] | null) => {
+    const layer = stateRef.current.textLayers.find(l => l.id === pathDrawingLayerId);
+    setPathDrawingLayerId(null);
+    if (!points || !layer) return;
+
+    const updates: Partial<TextLayer> = { path: { type: 'curve', points: toPathPoints(layer, points) } };
+    applyChange(prevState => ({
+      ...prevState,
+      textLayers: prevState.textLayers.map(l => {
+        if (l.id !== layer.id) return l;
+        return fitTextLayer(applyLayerUpdates(l, updates));
+      }),
+    }), describeLayerUpdate([layer], updates));
+  }, [applyChange, pathDrawingLayerId]);
+
+  // Swaps in moved copies of existing layers
+  const replaceLayers = useCallback((movedLayers: TextLayer[], change: HistoryChange) => {
+    applyChange(prevState => ({
+      ...prevState,
+      textLayers: prevState.textLayers.map(layer => movedLayers.find(l => l.id === layer.id) || layer),
+    }), change);
+  }, [applyChange]);
+
+  const handleAlignLayers = useCallback((mode: AlignMode, target: AlignTarget) => {
+    const state = stateRef.current;
+    const selected = getSelectedLayers(state);
+    const ctx = getMeasureContext();
+    if (selected.length === 0 || !ctx) return;
+
+    const reference = target === 'canvas'
+      ? { left: 0, top: 0, right: state.imageWidth, bottom: state.imageHeight }
+      : getLayersBounds(ctx, selected);
+    if (!reference) return;
+
+    replaceLayers(alignLayers(ctx, selected, mode, reference), { label: `Align ${getLayersLabel(selected)} ${mode}` });
+  }, [replaceLayers]);
+
+  const handleDistributeLayers = useCallback((axis: DistributeAxis) => {
+    const selected = getSelectedLayers(stateRef.current);
+    const ctx = getMeasureContext();
+    if (selected.length < 3 || !ctx) return;
+
+    replaceLayers(distributeLayers(ctx, selected, axis), { label: `Distribute ${getLayersLabel(selected)} ${axis}ly` });
+  }, [replaceLayers]);
+
+  const handleDeleteLayers = useCallback((layerIds: string[]) => {
+    const layers = stateRef.current.textLayers.filter(l => layerIds.includes(l.id));
+    if (layers.length === 0) return;
+
+    applyChange(prevState => {
+      const updatedLayers = prevState.textLayers.filter(l => !layerIds.includes(l.id));
       
       // Normalize z-indexes after deletion
       const normalizedLayers = normalizeZIndexes(updatedLayers);
       
-      const newState = { 
+      return { 
         ...prevState,
         textLayers: normalizedLayers,
-        selectedLayerId: newSelectedLayerId
+        selectedLayerIds: prevState.selectedLayerIds.filter(id => !layerIds.includes(id))
       };
-      addToHistory(newState);
-      return newState;
-    });
-  }, [addToHistory]);
-
-  const handleDuplicateLayer = useCallback((layerId: string) => {
-    setCanvasState(prevState => {
-      const layer = prevState.textLayers.find(l => l.id === layerId);
-      if (!layer) return prevState;
-
-      const duplicatedLayer: TextLayer = {
+    }, { label: `Delete ${getLayersLabel(layers)}` });
+  }, [applyChange]);
+
+  const handleDuplicateLayers = useCallback((layerIds: string[]) => {
+    // Keep the stacking order of the originals among the copies
+    const layers = stateRef.current.textLayers
+      .filter(l => layerIds.includes(l.id))
+      .sort((a, b) => a.zIndex - b.zIndex);
+    if (layers.length === 0) return;
+
+    applyChange(prevState => {
+      const nextZIndex = getNextZIndex(prevState.textLayers);
+      const duplicatedLayers: TextLayer[] = layers.map((layer, index) => ({
         ...layer,
         id: Math.random().toString(36).substring(2, 11),
         x: layer.x + 20,
         y: layer.y + 20,
-        zIndex: getNextZIndex(prevState.textLayers),
-      };
+        zIndex: nextZIndex + index,
+      }));
 
-      const updatedLayers = normalizeZIndexes([...prevState.textLayers, duplicatedLayer]);
-      const newState = { ...prevState, textLayers: updatedLayers };
-      addToHistory(newState);
-      return newState;
-    });
-  }, [addToHistory]);
+      const updatedLayers = normalizeZIndexes([...prevState.textLayers, ...duplicatedLayers]);
+      return {
+        ...prevState,
+        textLayers: updatedLayers,
+        selectedLayerIds: duplicatedLayers.map(layer => layer.id),
+      };
+    }, { label: `Duplicate ${getLayersLabel(layers)}` });
+  }, [applyChange]);
 
   const handleAddTextLayer = useCallback(() => {
-    setCanvasState(prevState => {
-      if (!prevState.image) return prevState;
+    applyChange(prevState => {
+      if (!hasCanvas(prevState)) return prevState;
 
       const newLayer = createDefaultTextLayer(
         prevState.imageWidth / 2 - 100,
@@ -260,90 +479,23 @@ export default function Home() {
       newLayer.zIndex = getNextZIndex(prevState.textLayers);
 
       const updatedLayers = normalizeZIndexes([...prevState.textLayers, newLayer]);
-      const newState = { 
+      return { 
         ...prevState,
         textLayers: updatedLayers,
-        selectedLayerId: newLayer.id
+        selectedLayerIds: [newLayer.id]
       };
-      addToHistory(newState);
-      return newState;
-    });
+    }, { label: 'Add text' });
     setActiveTab('properties');
-  }, [addToHistory]);
+  }, [applyChange]);
 
   // Export functionality
   const handleExport = useCallback(async (options: ExportOptions): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      try {
-        const canvas = document.createElement('canvas');
-        const ctx = canvas.getContext('2d');
-        
-        if (!ctx || !canvasState.image) {
-          reject(new Error('Failed to create canvas context'));
-          return;
-        }
-
-        const img = new Image();
-        img.crossOrigin = 'anonymous';
-        
-        img.onload = () => {
-          const scaledWidth = canvasState.imageWidth * options.scale;
-          const scaledHeight = canvasState.imageHeight * options.scale;
-          
-          canvas.width = scaledWidth;
-          canvas.height = scaledHeight;
-          
-          // Draw white background
-          ctx.fillStyle = '#ffffff';
-          ctx.fillRect(0, 0, scaledWidth, scaledHeight);
-          
-          // Draw image
-          ctx.drawImage(img, 0, 0, scaledWidth, scaledHeight);
-          
-          // Draw text layers in z-index order (same as Canvas component)
-          const sortedLayers = [...canvasState.textLayers].sort((a, b) => a.zIndex - b.zIndex);
-
-          sortedLayers.forEach(layer => {
-            if (layer.opacity > 0 && layer.isVisible) {
-              ctx.save();
-              ctx.globalAlpha = layer.opacity;
-              ctx.font = `${layer.fontWeight === 'bold' ? 'bold' : 'normal'} ${layer.fontSize * options.scale}px ${layer.fontFamily}`;
-              ctx.fillStyle = layer.color;
-              ctx.textAlign = layer.textAlign;
-              ctx.textBaseline = 'alphabetic'; // Set consistent baseline
-
-              // Apply rotation
-              if (layer.rotation !== 0) {
-                ctx.translate(layer.x * options.scale, layer.y * options.scale);
-                ctx.rotate((layer.rotation * Math.PI) / 180);
-                ctx.fillText(layer.text, 0, 0);
-              } else {
-                ctx.fillText(layer.text, layer.x * options.scale, layer.y * options.scale);
-              }
-
-              ctx.restore();
-            }
-          });
-          
-          const mimeType = options.format === 'jpg' ? 'image/jpeg' : 'image/png';
-          const quality = options.format === 'jpg' ? options.quality : undefined;
-          
-          const dataUrl = canvas.toDataURL(mimeType, quality);
-          resolve(dataUrl);
-        };
-        
-        img.onerror = () => reject(new Error('Failed to load image'));
-        img.src = canvasState.image;
-        
-      } catch (error) {
-        reject(error);
-      }
-    });
+    return exportComposition(canvasState, options);
   }, [canvasState]);
 
   // Quick export function for toolbar
   const handleQuickExport = useCallback(async () => {
-    if (!canvasState.image) return;
+    if (!hasCanvas(canvasState)) return;
 
     try {
       const dataUrl = await handleExport({ format: 'png', quality: 1, scale: 1 });
@@ -360,14 +512,49 @@ export default function Home() {
       console.error('Export failed:', error);
       alert('Failed to export image. Please try again.');
     }
-  }, [canvasState.image, handleExport]);
+  }, [canvasState, handleExport]);
+
+  const selectedLayers = getSelectedLayers(canvasState);
+
+  const canUndo = canUndoHistory(history);
+  const canRedo = canRedoHistory(history);
+
+  // Zooms about the centre of the view
+  const zoomBy = useCallback((factor: number) => {
+    setViewport(prev => zoomAround(prev, prev.zoom * factor, {
+      x: (viewportSize?.width ?? 0) / 2,
+      y: (viewportSize?.height ?? 0) / 2,
+    }));
+  }, [viewportSize]);
+
+  const handleResetZoom = useCallback(() => {
+    if (!viewportSize) return;
+    setViewport(centerViewport({ width: canvasState.imageWidth, height: canvasState.imageHeight }, viewportSize, 1));
+  }, [canvasState.imageWidth, canvasState.imageHeight, viewportSize]);
 
-  const selectedLayer = canvasState.selectedLayerId
-    ? canvasState.textLayers.find(layer => layer.id === canvasState.selectedLayerId) || null
-    : null;
+  const handleFitView = useCallback((mode: 'fit' | 'fill') => {
+    if (!viewportSize) return;
+    setViewport(fitViewport({ width: canvasState.imageWidth, height: canvasState.imageHeight }, viewportSize, mode));
+  }, [canvasState.imageWidth, canvasState.imageHeight, viewportSize]);
+
+  // Frame each newly opened design: centred at 100%, or smaller if it doesn't fit
+  const framedDesignRef = useRef<{ image: string | null; width: number; height: number } | null>(null);
+  useEffect(() => {
+    if (canvasState.imageWidth <= 0 || canvasState.imageHeight <= 0) {
+      framedDesignRef.current = null;
+      return;
+    }
+    const framed = framedDesignRef.current;
+    if (!viewportSize || (framed && framed.image === canvasState.image &&
+      framed.width === canvasState.imageWidth && framed.height === canvasState.imageHeight)) {
+      return;
+    }
+    framedDesignRef.current = { image: canvasState.image, width: canvasState.imageWidth, height: canvasState.imageHeight };
 
-  const canUndo = historyIndex > 0;
-  const canRedo = historyIndex < history.length - 1;
+    const design = { width: canvasState.imageWidth, height: canvasState.imageHeight };
+    const fit = fitViewport(design, viewportSize, 'fit');
+    setViewport(fit.zoom < 1 ? fit : centerViewport(design, viewportSize, 1));
+  }, [canvasState.image, canvasState.imageWidth, canvasState.imageHeight, viewportSize]);
 
   // Keyboard event handling
   const handleKeyDown = useCallback((e: KeyboardEvent) => {
@@ -391,34 +578,40 @@ export default function Home() {
           e.preventDefault();
           redo();
           return;
+        case 's':
+          e.preventDefault();
+          handleSaveProject();
+          return;
         case 'd':
           e.preventDefault();
-          if (canvasState.selectedLayerId) {
-            handleDuplicateLayer(canvasState.selectedLayerId);
-          }
+          handleDuplicateLayers(canvasState.selectedLayerIds);
+          return;
+        case 'a':
+          e.preventDefault();
+          handleSelectLayers(canvasState.textLayers.map(layer => layer.id), false);
           return;
       }
     }
 
-    if (canvasState.selectedLayerId) {
+    if (canvasState.selectedLayerIds.length > 0) {
       if (e.key === 'Delete' || e.key === 'Backspace') {
         e.preventDefault();
-        handleDeleteLayer(canvasState.selectedLayerId);
+        handleDeleteLayers(canvasState.selectedLayerIds);
       }
     }
 
     // Zoom controls
     if (e.key === '+' || e.key === '=') {
       e.preventDefault();
-      setZoom(prev => Math.min(3, prev + 0.1));
+      zoomBy(ZOOM_STEP);
     } else if (e.key === '-') {
       e.preventDefault();
-      setZoom(prev => Math.max(0.1, prev - 0.1));
+      zoomBy(1 / ZOOM_STEP);
     } else if (e.key === '0') {
       e.preventDefault();
-      setZoom(1);
+      handleResetZoom();
     }
-  }, [canvasState.selectedLayerId, undo, redo, handleDuplicateLayer, handleDeleteLayer]);
+  }, [canvasState.selectedLayerIds, canvasState.textLayers, undo, redo, handleDuplicateLayers, handleDeleteLayers, handleSelectLayers, handleSaveProject, zoomBy, handleResetZoom]);
 
   // Add keyboard event listeners
   React.useEffect(() => {
@@ -439,24 +632,44 @@ export default function Home() {
               <h1 className="text-xl font-bold bg-gradient-to-r from-gray-900 to-gray-600 bg-clip-text text-transparent">
                 Adomate Text Composer
               </h1>
+              {projectId && (
+                <span className="text-sm text-gray-500 truncate max-w-48" title={projectName}>
+                  {projectName}
+                  <span className={`ml-2 text-xs ${saveStatus === 'error' ? 'text-red-600' : 'text-gray-400'}`}>
+                    {saveStatus === 'saving' && 'Saving...'}
+                    {saveStatus === 'saved' && 'Saved'}
+                    {saveStatus === 'error' && 'Not saved'}
+                  </span>
+                </span>
+              )}
             </div>
             <div className="flex items-center space-x-4">
               <Toolbar
                 canUndo={canUndo}
                 canRedo={canRedo}
-                hasImage={!!canvasState.image}
-                hasSelectedLayer={!!canvasState.selectedLayerId}
+                hasCanvas={hasCanvas(canvasState)}
+                hasSelectedLayer={selectedLayers.length > 0}
+                zoom={viewport.zoom}
                 showGrid={showGrid}
+                showRulers={showRulers}
+                snapThreshold={snapThreshold}
                 onUndo={undo}
                 onRedo={redo}
                 onAddText={handleAddTextLayer}
-                onDuplicateLayer={() => canvasState.selectedLayerId && handleDuplicateLayer(canvasState.selectedLayerId)}
-                onDeleteLayer={() => canvasState.selectedLayerId && handleDeleteLayer(canvasState.selectedLayerId)}
+                onDuplicateLayer={() => handleDuplicateLayers(canvasState.selectedLayerIds)}
+                onDeleteLayer={() => handleDeleteLayers(canvasState.selectedLayerIds)}
                 onExport={handleQuickExport}
-                onResetZoom={() => setZoom(1)}
-                onZoomIn={() => setZoom(prev => Math.min(3, prev + 0.1))}
-                onZoomOut={() => setZoom(prev => Math.max(0.1, prev - 0.1))}
+                onSaveProject={handleSaveProject}
+                onOpenProject={handleOpenProject}
+                onShowProjects={() => setShowProjectPicker(true)}
+                onResetZoom={handleResetZoom}
+                onZoomIn={() => zoomBy(ZOOM_STEP)}
+                onZoomOut={() => zoomBy(1 / ZOOM_STEP)}
+                onFitView={() => handleFitView('fit')}
+                onFillView={() => handleFitView('fill')}
                 onToggleGrid={() => setShowGrid(prev => !prev)}
+                onToggleRulers={() => setShowRulers(prev => !prev)}
+                onSnapThresholdChange={setSnapThreshold}
                 onResetDesign={handleResetDesign}
               />
             </div>
@@ -514,36 +727,46 @@ export default function Home() {
 
               <div className="space-y-4">
                 {activeTab === 'upload' && (
-                  <div className="fade-in">
+                  <div className="fade-in space-y-6">
                     <ImageUpload onImageUpload={handleImageUpload} />
+                    <BlankCanvasForm onCreate={handleCreateBlankCanvas} />
                   </div>
                 )}
                 {activeTab === 'layers' && (
                   <div className="fade-in">
                     <LayersPanel
                       layers={canvasState.textLayers}
-                      selectedLayerId={canvasState.selectedLayerId}
-                      onSelectLayer={handleSelectLayer}
-                      onUpdateLayers={(layers) => {
+                      selectedLayerIds={canvasState.selectedLayerIds}
+                      onSelectLayers={(layerIds, additive) => handleSelectLayers(layerIds, !additive)}
+                      onUpdateLayers={(layers, change) => {
                         // Ensure z-indexes are normalized when layers are updated
                         const normalizedLayers = normalizeZIndexes(layers);
-                        setCanvasState(prevState => {
-                          const newState = { ...prevState, textLayers: normalizedLayers };
-                          addToHistory(newState);
-                          return newState;
-                        });
+                        applyChange(prevState => ({ ...prevState, textLayers: normalizedLayers }), change);
                       }}
-                      onDeleteLayer={handleDeleteLayer}
-                      onDuplicateLayer={handleDuplicateLayer}
+                      onDeleteLayer={(layerId) => handleDeleteLayers([layerId])}
+                      onDuplicateLayer={(layerId) => handleDuplicateLayers([layerId])}
                     />
                   </div>
                 )}
                 {activeTab === 'properties' && (
-                  <div className="fade-in">
+                  <div className="fade-in space-y-6">
+                    {selectedLayers.length > 0 && (
+                      <div className="pb-6 border-b border-gray-200">
+                        <AlignPanel
+                          selectedCount={selectedLayers.length}
+                          onAlign={handleAlignLayers}
+                          onDistribute={handleDistributeLayers}
+                        />
+                      </div>
+                    )}
                     <TextProperties
-                      selectedLayer={selectedLayer}
-                      onUpdateLayer={handleUpdateLayer}
-                      onDeleteLayer={() => selectedLayer && handleDeleteLayer(selectedLayer.id)}
+                      selectedLayers={selectedLayers}
+                      onUpdateLayers={handleUpdateLayers}
+                      textSelection={textSelection}
+                      onTextSelectionChange={setTextSelection}
+                      onDrawPath={() => setPathDrawingLayerId(selectedLayers[0]?.id ?? null)}
+                      isDrawingPath={!!pathDrawingLayerId && pathDrawingLayerId === selectedLayers[0]?.id}
+                      onDeleteLayers={() => handleDeleteLayers(canvasState.selectedLayerIds)}
                     />
                   </div>
                 )}
@@ -562,29 +785,47 @@ export default function Home() {
 
         {/* Main Canvas Area */}
         <div className="flex-1 flex flex-col bg-white/20 backdrop-blur-sm">
-          <div className="flex-1 flex items-center justify-center p-8">
-            <div className="relative">
-              <Canvas
-                canvasState={canvasState}
-                onUpdateCanvas={updateCanvas}
-                onSelectLayer={handleSelectLayer}
-                zoom={zoom}
-                showGrid={showGrid}
-              />
-            </div>
+          <div className="flex-1 min-h-0 p-4">
+            <Canvas
+              canvasState={canvasState}
+              onUpdateCanvas={updateCanvas}
+              onSelectLayers={handleSelectLayers}
+              onTextSelect={setTextSelection}
+              viewport={viewport}
+              onViewportChange={setViewport}
+              onViewportResize={setViewportSize}
+              showGrid={showGrid}
+              showRulers={showRulers}
+              snapThreshold={snapThreshold}
+              pathDrawingLayerId={pathDrawingLayerId}
+              onPathDrawn={handlePathDrawn}
+            />
           </div>
         </div>
       </div>
 
+      <ProjectPicker
+        isOpen={showProjectPicker}
+        currentProjectId={projectId}
+        onClose={() => setShowProjectPicker(false)}
+        onOpenProject={handleOpenStoredProject}
+        onProjectRenamed={(id, name) => {
+          if (id === projectId) setProjectName(name);
+        }}
+        onProjectDeleted={(id) => {
+          if (id === projectId) handleCurrentProjectDeleted();
+        }}
+      />
+
       {/* History Indicator */}
       <HistoryIndicator
-        historyLength={history.length}
-        currentIndex={historyIndex}
-        maxSteps={MAX_HISTORY_STEPS}
+        entries={history.entries}
+        currentIndex={history.index}
         canUndo={canUndo}
         canRedo={canRedo}
         onUndo={undo}
         onRedo={redo}
+        onJumpTo={jumpToHistory}
       />
     </div>
   );
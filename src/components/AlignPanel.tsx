@@ -0,0 +1,90 @@
+'use client';
+
+import React, { useState } from 'react';
+import { AlignMode, AlignTarget, DistributeAxis } from '@/lib/align';
+import {
+  AlignStartVertical,
+  AlignCenterVertical,
+  AlignEndVertical,
+  AlignStartHorizontal,
+  AlignCenterHorizontal,
+  AlignEndHorizontal,
+  AlignHorizontalSpaceBetween,
+  AlignVerticalSpaceBetween
+} from 'lucide-react';
+
+interface AlignPanelProps {
+  selectedCount: number;
+  onAlign: (mode: AlignMode, target: AlignTarget) => void;
+  onDistribute: (axis: DistributeAxis) => void;
+}
+
+const ALIGN_BUTTONS: { mode: AlignMode; icon: React.ElementType; label: string }[] = [
+  { mode: 'left', icon: AlignStartVertical, label: 'Align left' },
+  { mode: 'center', icon: AlignCenterVertical, label: 'Align center' },
+  { mode: 'right', icon: AlignEndVertical, label: 'Align right' },
+  { mode: 'top', icon: AlignStartHorizontal, label: 'Align top' },
+  { mode: 'middle', icon: AlignCenterHorizontal, label: 'Align middle' },
+  { mode: 'bottom', icon: AlignEndHorizontal, label: 'Align bottom' },
+];
+
+const AlignPanel: React.FC<AlignPanelProps> = ({ selectedCount, onAlign, onDistribute }) => {
+  const [target, setTarget] = useState<AlignTarget>('selection');
+
+  // A single layer can only be aligned to the canvas
+  const effectiveTarget: AlignTarget = selectedCount < 2 ? 'canvas' : target;
+  const canDistribute = selectedCount >= 3;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium text-gray-900">Align</label>
+        <div className="flex bg-gray-100 rounded-lg p-0.5 text-xs">
+          {(['selection', 'canvas'] as AlignTarget[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setTarget(option)}
+              disabled={option === 'selection' && selectedCount < 2}
+              className={`px-2 py-1 rounded-md transition-colors disabled:text-gray-300 disabled:cursor-not-allowed ${
+                effectiveTarget === option ? 'bg-white shadow-sm text-gray-900' : 'text-gray-600 hover:text-gray-800'
+              }`}
+            >
+              {option === 'selection' ? 'Selection' : 'Canvas'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-8 gap-1">
+        {ALIGN_BUTTONS.map(({ mode, icon: Icon, label }) => (
+          <button
+            key={mode}
+            onClick={() => onAlign(mode, effectiveTarget)}
+            className="flex items-center justify-center p-2 border border-gray-300 rounded-lg hover:border-gray-400 hover:bg-gray-50 text-gray-700 transition-all"
+            title={`${label} to ${effectiveTarget}`}
+          >
+            <Icon className="w-4 h-4" />
+          </button>
+        ))}
+        <button
+          onClick={() => onDistribute('horizontal')}
+          disabled={!canDistribute}
+          className="flex items-center justify-center p-2 border border-gray-300 rounded-lg hover:border-gray-400 hover:bg-gray-50 text-gray-700 transition-all disabled:opacity-30 disabled:cursor-not-allowed"
+          title="Distribute horizontally (3 or more layers)"
+        >
+          <AlignHorizontalSpaceBetween className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => onDistribute('vertical')}
+          disabled={!canDistribute}
+          className="flex items-center justify-center p-2 border border-gray-300 rounded-lg hover:border-gray-400 hover:bg-gray-50 text-gray-700 transition-all disabled:opacity-30 disabled:cursor-not-allowed"
+          title="Distribute vertically (3 or more layers)"
+        >
+          <AlignVerticalSpaceBetween className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AlignPanel;
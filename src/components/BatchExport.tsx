@@ -0,0 +1,279 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { CanvasState, ExportFormat, ExportPreset } from '@/types';
+import { downloadBlob } from '@/lib/utils';
+import { EXPORT_FORMATS, exportBatch, getExportSize, isExportFormatSupported } from '@/lib/export';
+import { Archive, Plus, Pencil, Trash2 } from 'lucide-react';
+
+interface BatchExportProps {
+  canvasState: CanvasState;
+  // Current single-export settings, used as a starting point for new presets
+  currentFormat: ExportFormat;
+  currentQuality: number;
+  currentScale: number;
+}
+
+const PRESETS_KEY = 'image-text-composer-export-presets';
+
+const DEFAULT_PRESETS: ExportPreset[] = [
+  { id: 'instagram-post', name: 'Instagram Post', format: 'jpg', quality: 0.9, scale: 1, width: 1080, height: 1080, filenameTemplate: '{name}-{width}x{height}' },
+  { id: 'instagram-story', name: 'Instagram Story', format: 'jpg', quality: 0.9, scale: 1, width: 1080, height: 1920, filenameTemplate: '{name}-{width}x{height}' },
+  { id: 'link-post', name: 'Link Post', format: 'png', quality: 1, scale: 1, width: 1200, height: 628, filenameTemplate: '{name}-{width}x{height}' },
+  { id: 'twitter', name: 'Twitter', format: 'jpg', quality: 0.9, scale: 1, width: 1600, height: 900, filenameTemplate: '{name}-{width}x{height}' },
+  { id: 'original', name: 'Original', format: 'png', quality: 1, scale: 1, filenameTemplate: '{name}-{scale}' },
+];
+
+const loadPresets = (): ExportPreset[] => {
+  try {
+    const saved = localStorage.getItem(PRESETS_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      if (Array.isArray(parsed)) return parsed;
+    }
+  } catch (error) {
+    console.error('Failed to load export presets:', error);
+  }
+  return DEFAULT_PRESETS;
+};
+
+const BatchExport: React.FC<BatchExportProps> = ({ canvasState, currentFormat, currentQuality, currentScale }) => {
+  const [presets, setPresets] = useState<ExportPreset[]>(DEFAULT_PRESETS);
+  const [presetsLoaded, setPresetsLoaded] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null);
+
+  // localStorage is only available in the browser
+  useEffect(() => {
+    setPresets(loadPresets());
+    setPresetsLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (!presetsLoaded) return;
+    try {
+      localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+    } catch (error) {
+      console.error('Failed to save export presets:', error);
+    }
+  }, [presets, presetsLoaded]);
+
+  const updatePreset = (id: string, updates: Partial<ExportPreset>) => {
+    setPresets(prev => prev.map(preset => (preset.id === id ? { ...preset, ...updates } : preset)));
+  };
+
+  const handleAddPreset = () => {
+    const preset: ExportPreset = {
+      id: `preset-${Date.now()}`,
+      name: `Preset ${presets.length + 1}`,
+      format: currentFormat,
+      quality: currentQuality,
+      scale: currentScale,
+      filenameTemplate: '{name}-{width}x{height}',
+    };
+    setPresets(prev => [...prev, preset]);
+    setEditingId(preset.id);
+  };
+
+  const handleDeletePreset = (id: string) => {
+    setPresets(prev => prev.filter(preset => preset.id !== id));
+    if (editingId === id) setEditingId(null);
+  };
+
+  const handleSizeChange = (id: string, key: 'width' | 'height', value: string) => {
+    const size = parseInt(value);
+    updatePreset(id, { [key]: size > 0 ? size : undefined });
+  };
+
+  const handleExportAll = async () => {
+    const runnable = presets.filter(preset => isExportFormatSupported(preset.format));
+    if (runnable.length === 0) return;
+
+    setProgress({ completed: 0, total: runnable.length });
+    try {
+      const zip = await exportBatch(canvasState, runnable, (completed, total) => setProgress({ completed, total }));
+      downloadBlob(zip, `image-text-composer-${Date.now()}.zip`);
+    } catch (error) {
+      console.error('Batch export failed:', error);
+      alert('Failed to export presets. Please try again.');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const inputClassName =
+    'w-full p-1 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black bg-white';
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium text-gray-900">Batch Export</h4>
+        <button
+          onClick={handleAddPreset}
+          className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
+          title="Add preset from current settings"
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        {presets.map(preset => {
+          const size = getExportSize(canvasState, preset);
+          const supported = isExportFormatSupported(preset.format);
+
+          return (
+            <div key={preset.id} className="p-2 bg-gray-50 rounded-md">
+              <div className="flex items-center justify-between">
+                <div className={`text-sm ${supported ? 'text-gray-700' : 'text-gray-400 line-through'}`}>
+                  <span className="font-medium">{preset.name}</span>
+                  <span className="text-xs text-gray-500 ml-2">
+                    {EXPORT_FORMATS[preset.format].label} · {size.width}×{size.height}
+                  </span>
+                </div>
+                <div className="flex items-center space-x-1">
+                  <button
+                    onClick={() => setEditingId(editingId === preset.id ? null : preset.id)}
+                    className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
+                    title="Edit preset"
+                  >
+                    <Pencil className="w-3 h-3" />
+                  </button>
+                  <button
+                    onClick={() => handleDeletePreset(preset.id)}
+                    className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                    title="Delete preset"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+              </div>
+
+              {editingId === preset.id && (
+                <div className="mt-2 grid grid-cols-2 gap-2">
+                  <div className="col-span-2">
+                    <label className="text-xs text-gray-600">Name</label>
+                    <input
+                      type="text"
+                      value={preset.name}
+                      onChange={(e) => updatePreset(preset.id, { name: e.target.value })}
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div>
+                    <label className="text-xs text-gray-600">Format</label>
+                    <select
+                      value={preset.format}
+                      onChange={(e) => updatePreset(preset.id, { format: e.target.value as ExportFormat })}
+                      className={inputClassName}
+                    >
+                      {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => (
+                        <option key={format} value={format}>
+                          {EXPORT_FORMATS[format].label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="text-xs text-gray-600">Scale</label>
+                    <input
+                      type="number"
+                      min="0.1"
+                      max="10"
+                      step="0.1"
+                      value={preset.scale}
+                      disabled={!!(preset.width || preset.height)}
+                      onChange={(e) => updatePreset(preset.id, { scale: Number(e.target.value) || 1 })}
+                      className={`${inputClassName} disabled:bg-gray-100 disabled:text-gray-400`}
+                      title="Used when no target size is set"
+                    />
+                  </div>
+                  <div>
+                    <label className="text-xs text-gray-600">Width (px)</label>
+                    <input
+                      type="number"
+                      min="1"
+                      value={preset.width ?? ''}
+                      placeholder="Auto"
+                      onChange={(e) => handleSizeChange(preset.id, 'width', e.target.value)}
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div>
+                    <label className="text-xs text-gray-600">Height (px)</label>
+                    <input
+                      type="number"
+                      min="1"
+                      value={preset.height ?? ''}
+                      placeholder="Auto"
+                      onChange={(e) => handleSizeChange(preset.id, 'height', e.target.value)}
+                      className={inputClassName}
+                    />
+                  </div>
+                  {EXPORT_FORMATS[preset.format].lossy && (
+                    <div className="col-span-2">
+                      <label className="text-xs text-gray-600">Quality: {Math.round(preset.quality * 100)}%</label>
+                      <input
+                        type="range"
+                        min="0.1"
+                        max="1"
+                        step="0.1"
+                        value={preset.quality}
+                        onChange={(e) => updatePreset(preset.id, { quality: Number(e.target.value) })}
+                        className="w-full"
+                      />
+                    </div>
+                  )}
+                  <div className="col-span-2">
+                    <label className="text-xs text-gray-600">File name</label>
+                    <input
+                      type="text"
+                      value={preset.filenameTemplate}
+                      onChange={(e) => updatePreset(preset.id, { filenameTemplate: e.target.value })}
+                      className={inputClassName}
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      {'{name} {index} {format} {width} {height} {scale} {date}'}
+                    </p>
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {presets.length > 0 && (
+        <p className="text-xs text-gray-500">
+          Setting both width and height crops to fill that size from the centre
+        </p>
+      )}
+
+      <button
+        onClick={handleExportAll}
+        disabled={!!progress || presets.length === 0}
+        className={`
+          w-full flex items-center justify-center px-4 py-2 rounded-lg font-medium transition-colors
+          ${progress || presets.length === 0
+            ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
+            : 'bg-gray-800 text-white hover:bg-gray-900'
+          }
+        `}
+      >
+        {progress ? (
+          <>
+            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+            Exporting {progress.completed}/{progress.total}...
+          </>
+        ) : (
+          <>
+            <Archive className="w-4 h-4 mr-2" />
+            Export All as ZIP
+          </>
+        )}
+      </button>
+    </div>
+  );
+};
+
+export default BatchExport;
@@ -0,0 +1,184 @@
+'use client';
+
+import React, { useState } from 'react';
+import { CanvasBackground } from '@/types';
+import { FilePlus } from 'lucide-react';
+
+interface BlankCanvasFormProps {
+  onCreate: (width: number, height: number, background: CanvasBackground) => void;
+}
+
+const SIZE_PRESETS = [
+  { label: 'Square', width: 1080, height: 1080 },
+  { label: 'Story', width: 1080, height: 1920 },
+  { label: 'Link Post', width: 1200, height: 628 },
+  { label: 'HD', width: 1920, height: 1080 },
+];
+
+const MAX_CANVAS_SIZE = 8000;
+
+const BlankCanvasForm: React.FC<BlankCanvasFormProps> = ({ onCreate }) => {
+  const [width, setWidth] = useState(1080);
+  const [height, setHeight] = useState(1080);
+  const [backgroundType, setBackgroundType] = useState<CanvasBackground['type']>('solid');
+  const [color, setColor] = useState('#FFFFFF');
+  const [gradientFrom, setGradientFrom] = useState('#667EEA');
+  const [gradientTo, setGradientTo] = useState('#764BA2');
+  const [gradientAngle, setGradientAngle] = useState(45);
+
+  const clampSize = (value: number) => Math.max(1, Math.min(MAX_CANVAS_SIZE, value || 1));
+
+  const handleCreate = () => {
+    let background: CanvasBackground;
+    if (backgroundType === 'solid') {
+      background = { type: 'solid', color };
+    } else if (backgroundType === 'gradient') {
+      background = { type: 'gradient', from: gradientFrom, to: gradientTo, angle: gradientAngle };
+    } else {
+      background = { type: 'transparent' };
+    }
+    onCreate(clampSize(width), clampSize(height), background);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="text-center">
+        <h3 className="text-lg font-semibold text-gray-900 mb-2">Blank Canvas</h3>
+        <p className="text-sm text-gray-600">Start a text-only design without an image</p>
+      </div>
+
+      {/* Size Presets */}
+      <div className="grid grid-cols-2 gap-2">
+        {SIZE_PRESETS.map(preset => (
+          <button
+            key={preset.label}
+            onClick={() => {
+              setWidth(preset.width);
+              setHeight(preset.height);
+            }}
+            className={`px-3 py-2 text-xs rounded-md transition-colors ${
+              width === preset.width && height === preset.height
+                ? 'bg-blue-500 text-white'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {preset.label} · {preset.width}×{preset.height}
+          </button>
+        ))}
+      </div>
+
+      {/* Custom Size */}
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <label className="text-xs text-gray-600">Width (px)</label>
+          <input
+            type="number"
+            min="1"
+            max={MAX_CANVAS_SIZE}
+            value={width}
+            onChange={(e) => setWidth(parseInt(e.target.value))}
+            className="w-full p-2 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black bg-white"
+            style={{ color: '#000000' }}
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-xs text-gray-600">Height (px)</label>
+          <input
+            type="number"
+            min="1"
+            max={MAX_CANVAS_SIZE}
+            value={height}
+            onChange={(e) => setHeight(parseInt(e.target.value))}
+            className="w-full p-2 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black bg-white"
+            style={{ color: '#000000' }}
+          />
+        </div>
+      </div>
+
+      {/* Background */}
+      <div className="space-y-2">
+        <label className="text-sm font-medium text-gray-900">Background</label>
+        <div className="flex space-x-2">
+          {[
+            { value: 'solid' as const, label: 'Solid' },
+            { value: 'gradient' as const, label: 'Gradient' },
+            { value: 'transparent' as const, label: 'Transparent' },
+          ].map(({ value, label }) => (
+            <button
+              key={value}
+              onClick={() => setBackgroundType(value)}
+              className={`flex-1 px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                backgroundType === value
+                  ? 'bg-blue-500 text-white'
+                  : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {backgroundType === 'solid' && (
+          <div className="flex items-center space-x-3">
+            <input
+              type="color"
+              value={color}
+              onChange={(e) => setColor(e.target.value)}
+              className="w-12 h-8 border border-gray-300 rounded cursor-pointer"
+              title="Background color"
+            />
+            <span className="text-xs text-gray-500">{color}</span>
+          </div>
+        )}
+
+        {backgroundType === 'gradient' && (
+          <div className="space-y-2">
+            <div className="flex items-center space-x-3">
+              <input
+                type="color"
+                value={gradientFrom}
+                onChange={(e) => setGradientFrom(e.target.value)}
+                className="w-12 h-8 border border-gray-300 rounded cursor-pointer"
+                title="Gradient start color"
+              />
+              <input
+                type="color"
+                value={gradientTo}
+                onChange={(e) => setGradientTo(e.target.value)}
+                className="w-12 h-8 border border-gray-300 rounded cursor-pointer"
+                title="Gradient end color"
+              />
+              <div
+                className="flex-1 h-8 rounded border border-gray-300"
+                style={{ background: `linear-gradient(${gradientAngle + 90}deg, ${gradientFrom}, ${gradientTo})` }}
+              />
+            </div>
+            <label className="text-xs text-gray-600">Angle: {gradientAngle}°</label>
+            <input
+              type="range"
+              min="0"
+              max="360"
+              value={gradientAngle}
+              onChange={(e) => setGradientAngle(parseInt(e.target.value))}
+              className="w-full"
+            />
+          </div>
+        )}
+
+        {backgroundType === 'transparent' && (
+          <p className="text-xs text-gray-500">Exported PNGs keep a transparent background</p>
+        )}
+      </div>
+
+      <button
+        onClick={handleCreate}
+        className="w-full flex items-center justify-center px-4 py-3 rounded-lg font-medium bg-blue-500 text-white hover:bg-blue-600 transition-colors"
+      >
+        <FilePlus className="w-4 h-4 mr-2" />
+        Create Canvas
+      </button>
+    </div>
+  );
+};
+
+export default BlankCanvasForm;
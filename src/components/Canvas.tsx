@@ -1,200 +1,340 @@
 'use client';
 
-import React, { useRef, useEffect, useState, useCallback } from 'react';
-import { CanvasState } from '@/types';
-import { createDefaultTextLayer, getNextZIndex } from '@/lib/utils';
+import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
+import { CanvasState, Guide, PathPoint, TextLayer } from '@/types';
+import { createDefaultTextLayer, getNextZIndex, createImageProxy, hasCanvas, generateId } from '@/lib/utils';
+import { getFontString, fitTextLayer, getTextEditorBox, hasFixedBox } from '@/lib/text';
+import { TextRange, applyLayerUpdates, hasMixedMetrics } from '@/lib/spans';
+import { getMissingFillImages, loadFillImages } from '@/lib/fills';
+import { getLayerPath } from '@/lib/textPath';
+import { renderComposition, getLayerAtPoint } from '@/lib/render';
+import { HistoryChange, getLayersLabel } from '@/lib/history';
+import { getLayersInBounds, getMarqueeBounds, getSelectedLayers, toggleLayerSelection } from '@/lib/selection';
+import { DEFAULT_SNAP_THRESHOLD, SnapGuide, snapLayers } from '@/lib/snapping';
+import { TransformHandle, getHandleAtPoint, getHandleCursor, getHandleDragUpdates } from '@/lib/transform';
+import { GUIDE_HIT_TOLERANCE, getGuideAtPoint, isGuideOnCanvas } from '@/lib/guides';
+import { Viewport, ViewportSize, zoomAround } from '@/lib/viewport';
+import Ruler, { RULER_SIZE } from '@/components/Ruler';
+import { Lock, Unlock, Trash2 } from 'lucide-react';
 
 interface CanvasProps {
   canvasState: CanvasState;
-  onUpdateCanvas: (updates: Partial<CanvasState>) => void;
-  onSelectLayer: (layerId: string | null) => void;
-  zoom?: number;
+  onUpdateCanvas: (updates: Partial<CanvasState>, change?: HistoryChange) => void;
+  onSelectLayers: (layerIds: string[]) => void;
+  // Reports the characters selected in the in-place text editor
+  onTextSelect?: (range: TextRange) => void;
+  viewport: Viewport;
+  onViewportChange: (update: (viewport: Viewport) => Viewport) => void;
+  // Reports the size of the visible canvas area, in screen pixels
+  onViewportResize?: (size: ViewportSize) => void;
   showGrid?: boolean;
+  showRulers?: boolean;
+  // Smart guide snap distance in screen pixels
+  snapThreshold?: number;
+  // Layer whose text path is being drawn on the canvas, if any
+  pathDrawingLayerId?: string | null;
+  // Reports the drawn path's points in design coordinates, or null when cancelled
+  onPathDrawn?: (points: PathPoint[] | null) => void;
 }
 
+// Proxy pixels per design pixel, so zoomed-in editing stays sharp
+const PROXY_RESOLUTION = 2;
+// Zoom change per pixel of wheel or pinch movement
+const WHEEL_ZOOM_SPEED = 0.01;
+// Largest wheel step applied at once, so mouse wheels don't jump too far
+const MAX_WHEEL_DELTA = 25;
+// Room either side of the in-place editor's text for the caret, in screen pixels
+const EDITOR_PADDING = 4;
+
 const Canvas: React.FC<CanvasProps> = ({ 
   canvasState, 
   onUpdateCanvas, 
-  onSelectLayer, 
-  zoom = 1,
-  showGrid = false 
+  onSelectLayers, 
+  onTextSelect,
+  viewport,
+  onViewportChange,
+  onViewportResize,
+  showGrid = false,
+  showRulers = false,
+  snapThreshold = DEFAULT_SNAP_THRESHOLD,
+  pathDrawingLayerId = null,
+  onPathDrawn
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const [viewportSize, setViewportSize] = useState<ViewportSize>({ width: 0, height: 0 });
+  // Device pixels per CSS pixel; the canvas bitmap is sized in device pixels
+  const [pixelRatio, setPixelRatio] = useState(1);
   const textAreaRef = useRef<HTMLTextAreaElement>(null);
-  const [selectedId, setSelectedId] = useState<string | null>(null);
-  const [imageElement, setImageElement] = useState<HTMLImageElement | null>(null);
-  const [isDragging, setIsDragging] = useState(false);
-  const [, setDragStart] = useState({ x: 0, y: 0 });
-  const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 });
+  const [imageElement, setImageElement] = useState<CanvasImageSource | null>(null);
+  // Bumped when pattern fill images finish decoding, to redraw with them
+  const [fillImagesLoaded, setFillImagesLoaded] = useState(0);
+  // Active move gesture: the layer under the pointer and where every selected layer started
+  const dragRef = useRef<{
+    start: { x: number; y: number };
+    primaryId: string;
+    origins: { id: string; x: number; y: number }[];
+  } | null>(null);
+  // Rubber-band selection in progress; additive drags keep the existing selection
+  const [marquee, setMarquee] = useState<{
+    start: { x: number; y: number };
+    end: { x: number; y: number };
+    baseIds: string[];
+  } | null>(null);
   const [editingLayerId, setEditingLayerId] = useState<string | null>(null);
   const [editingText, setEditingText] = useState('');
+  // Unique per drag so each drag merges into a single undo step
+  const dragGestureRef = useRef('');
+  // Active resize/rotate gesture
+  const transformRef = useRef<{
+    handle: TransformHandle;
+    startLayer: TextLayer;
+    start: { x: number; y: number };
+  } | null>(null);
+  const [handleCursor, setHandleCursor] = useState<string | null>(null);
+  // Smart guides matched by the current move
+  const [guides, setGuides] = useState<SnapGuide[]>([]);
+  const guideTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const scratchContextRef = useRef<CanvasRenderingContext2D | null>(null);
+  // Ruler guide being dragged; new guides are only added once they reach the canvas
+  const [guideDrag, setGuideDrag] = useState<{
+    id: string;
+    axis: Guide['axis'];
+    isNew: boolean;
+    gesture: string;
+  } | null>(null);
+  // Space held for panning, and the pan drag in progress
+  const [isSpaceDown, setIsSpaceDown] = useState(false);
+  const panRef = useRef<{ start: { x: number; y: number }; pan: { x: number; y: number } } | null>(null);
+  const [isPanning, setIsPanning] = useState(false);
+  // Points of the text path being drawn, and the pointer position that would come next
+  const [pathPoints, setPathPoints] = useState<PathPoint[]>([]);
+  const [pathHover, setPathHover] = useState<PathPoint | null>(null);
+  const isReady = hasCanvas(canvasState);
+
+  // Shared 2D context for measuring and hit-testing
+  const getScratchContext = useCallback(() => {
+    if (!scratchContextRef.current) {
+      scratchContextRef.current = document.createElement('canvas').getContext('2d');
+    }
+    return scratchContextRef.current;
+  }, []);
+
+  // Canvas pixels per on-screen pixel
+  const getOverlayScale = useCallback(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return 1;
+    const rect = canvas.getBoundingClientRect();
+    return rect.width > 0 ? canvas.width / rect.width : 1;
+  }, []);
+
+  // Design pixels per on-screen pixel
+  const getPixelSize = useCallback(() => 1 / viewport.zoom, [viewport.zoom]);
+
+  // Track the pixel ratio, which changes when the window moves to another
+  // monitor or the browser zoom changes
+  useEffect(() => {
+    const ratio = window.devicePixelRatio || 1;
+    setPixelRatio(ratio);
+
+    // A resolution query only reports changes away from the ratio it was made for
+    const query = window.matchMedia(`(resolution: ${ratio}dppx)`);
+    const handleChange = () => setPixelRatio(window.devicePixelRatio || 1);
+    query.addEventListener('change', handleChange);
+    return () => query.removeEventListener('change', handleChange);
+  }, [pixelRatio]);
+
+  // The canvas element always covers the visible area; the design is drawn into it
+  useEffect(() => {
+    const element = viewportRef.current;
+    if (!element) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      const size = { width: Math.floor(entry.contentRect.width), height: Math.floor(entry.contentRect.height) };
+      setViewportSize(size);
+      onViewportResize?.(size);
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [isReady, onViewportResize]);
+
+  // Ctrl/Cmd+wheel and trackpad pinch zoom around the pointer; plain wheel pans.
+  // Registered natively so the wheel can't scroll or zoom the page.
+  useEffect(() => {
+    const element = viewportRef.current;
+    if (!element) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      // Line-based deltas are roughly 16px per line
+      const unit = e.deltaMode === 1 ? 16 : 1;
+
+      if (e.ctrlKey || e.metaKey) {
+        const rect = element.getBoundingClientRect();
+        const point = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+        const delta = Math.max(-MAX_WHEEL_DELTA, Math.min(MAX_WHEEL_DELTA, e.deltaY * unit));
+        onViewportChange(prev => zoomAround(prev, prev.zoom * Math.exp(-delta * WHEEL_ZOOM_SPEED), point));
+      } else {
+        onViewportChange(prev => ({ ...prev, panX: prev.panX - e.deltaX * unit, panY: prev.panY - e.deltaY * unit }));
+      }
+    };
+
+    element.addEventListener('wheel', handleWheel, { passive: false });
+    return () => element.removeEventListener('wheel', handleWheel);
+  }, [isReady, onViewportChange]);
 
   // Load image when canvasState.image changes
   useEffect(() => {
-    if (canvasState.image) {
+    if (!canvasState.image) {
+      // Blank canvas designs have no base image
+      setImageElement(null);
+    } else {
       const img = new window.Image();
       img.crossOrigin = 'anonymous';
       img.onload = () => {
-        setImageElement(img);
+        // Edit against a display-sized proxy; the full-resolution original
+        // is only decoded again for export
+        const resolution = Math.max(PROXY_RESOLUTION, pixelRatio);
+        setImageElement(createImageProxy(
+          img,
+          canvasState.imageWidth * resolution,
+          canvasState.imageHeight * resolution
+        ));
       };
       img.src = canvasState.image;
     }
-  }, [canvasState.image]);
+  }, [canvasState.image, canvasState.imageWidth, canvasState.imageHeight, pixelRatio]);
+
+  // The layer being edited in place with its uncommitted text, sized the
+  // way committing will size it (auto-fit layers refit as the user types)
+  const editorLayer = useMemo(() => {
+    const layer = editingLayerId ? canvasState.textLayers.find(l => l.id === editingLayerId) : null;
+    return layer ? fitTextLayer(applyLayerUpdates(layer, { text: editingText })) : null;
+  }, [canvasState.textLayers, editingLayerId, editingText]);
+
+  // Mixed-font text is edited in a visible plain field instead of over the
+  // canvas text, whose glyphs the field's single font could not line up with
+  const isEditorPlain = !!editorLayer && hasMixedMetrics(editorLayer);
 
   // Draw function
   const drawCanvas = useCallback(() => {
     const canvas = canvasRef.current;
-    if (!canvas || !imageElement) return;
+    if (!canvas || (canvasState.image && !imageElement)) return;
 
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    // Clear canvas
+    // Render in device pixels; overlays scale by the same ratio
     ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.save();
+    ctx.translate(viewport.panX * pixelRatio, viewport.panY * pixelRatio);
+    // Text being edited in place is drawn live, before it is committed
+    const state = editorLayer ? {
+      ...canvasState,
+      textLayers: canvasState.textLayers.map(layer =>
+        layer.id === editorLayer.id ? { ...editorLayer, isVisible: editorLayer.isVisible && !isEditorPlain } : layer
+      ),
+    } : canvasState;
 
-    // Draw image
-    ctx.drawImage(imageElement, 0, 0, canvas.width, canvas.height);
-
-    // Draw grid
-    if (showGrid) {
-      ctx.strokeStyle = '#e5e7eb';
-      ctx.lineWidth = 1;
-      ctx.globalAlpha = 0.5;
-      
-      const gridSize = 20 * zoom;
-      for (let x = 0; x <= canvas.width; x += gridSize) {
-        ctx.beginPath();
-        ctx.moveTo(x, 0);
-        ctx.lineTo(x, canvas.height);
-        ctx.stroke();
-      }
-      for (let y = 0; y <= canvas.height; y += gridSize) {
-        ctx.beginPath();
-        ctx.moveTo(0, y);
-        ctx.lineTo(canvas.width, y);
-        ctx.stroke();
-      }
-      ctx.globalAlpha = 1;
-    }
-
-    // Draw text layers in z-index order
-    const sortedLayers = [...canvasState.textLayers].sort((a, b) => a.zIndex - b.zIndex);
-    
-    sortedLayers.forEach(layer => {
-      if (layer.opacity > 0 && layer.isVisible) {
-        ctx.save();
-        ctx.globalAlpha = layer.opacity;
-        ctx.font = `${layer.fontWeight === 'bold' ? 'bold' : 'normal'} ${layer.fontSize * zoom}px ${layer.fontFamily}`;
-        ctx.fillStyle = layer.color;
-        ctx.textAlign = layer.textAlign;
-        
-        // Calculate text metrics for dynamic border sizing
-        const textMetrics = ctx.measureText(layer.text);
-        const textWidth = textMetrics.width;
-        const textHeight = layer.fontSize * zoom;
-        
-        // Calculate text position based on alignment
-        const textX = layer.x * zoom;
-        const textY = layer.y * zoom;
-        
-        // Apply rotation
-        if (layer.rotation !== 0) {
-          ctx.translate(textX, textY);
-          ctx.rotate((layer.rotation * Math.PI) / 180);
-          ctx.fillText(layer.text, 0, 0);
-        } else {
-          ctx.fillText(layer.text, textX, textY);
-        }
-        
-        // Draw selection border with dynamic sizing
-        if (selectedId === layer.id) {
-          ctx.strokeStyle = '#3b82f6';
-          ctx.lineWidth = 2;
-          ctx.setLineDash([5, 5]); // Dashed border
-          
-          // Add subtle animation to the border
-          const time = Date.now() * 0.005;
-          const dashOffset = Math.sin(time) * 5;
-          ctx.lineDashOffset = dashOffset;
-          
-          // Calculate border dimensions based on text content and alignment
-          let borderX, borderY, borderWidth, borderHeight;
-          
-          if (layer.rotation !== 0) {
-            // For rotated text, use a larger border to accommodate rotation
-            const maxDimension = Math.max(textWidth, textHeight);
-            borderWidth = maxDimension + 20;
-            borderHeight = maxDimension + 20;
-            borderX = textX - borderWidth / 2;
-            borderY = textY - borderHeight / 2;
-          } else {
-            // For non-rotated text, calculate precise border
-            borderWidth = textWidth + 20;
-            borderHeight = textHeight + 20;
-            
-            // Calculate border position based on text alignment
-            if (layer.textAlign === 'left') {
-              borderX = textX - 10;
-            } else if (layer.textAlign === 'center') {
-              borderX = textX - textWidth / 2 - 10;
-            } else { // right
-              borderX = textX - textWidth - 10;
-            }
-            borderY = textY - textHeight - 10;
-          }
-          
-          ctx.strokeRect(borderX, borderY, borderWidth, borderHeight);
-          ctx.setLineDash([]); // Reset line dash
-          ctx.lineDashOffset = 0; // Reset dash offset
-        }
-        
-        ctx.restore();
-      }
+    renderComposition(ctx, state, {
+      scale: viewport.zoom * pixelRatio,
+      image: imageElement,
+      showGrid,
+      selectedLayerIds: canvasState.selectedLayerIds,
+      showGuides: true,
+      marquee: marquee ? getMarqueeBounds(marquee.start, marquee.end) : null,
+      guides,
+      pathPreview: pathHover ? [...pathPoints, pathHover] : pathPoints,
+      time: Date.now(),
+      overlayScale: getOverlayScale(),
     });
-  }, [canvasState.textLayers, selectedId, imageElement, zoom, showGrid]);
+    ctx.restore();
+  }, [canvasState, editorLayer, isEditorPlain, marquee, guides, pathPoints, pathHover, imageElement, viewport, pixelRatio, showGrid, getOverlayScale]);
 
-  // Redraw canvas when dependencies change
+  // Redraw canvas when dependencies change; resizing the bitmap also clears it
   useEffect(() => {
     requestAnimationFrame(() => {
       drawCanvas();
     });
-  }, [drawCanvas]);
+  }, [drawCanvas, viewportSize, fillImagesLoaded]);
 
-  // Ensure canvas redraws when textLayers change
+  // Pattern fills render once their images are decoded
   useEffect(() => {
-    requestAnimationFrame(() => {
-      drawCanvas();
+    if (getMissingFillImages(canvasState.textLayers).length === 0) return;
+
+    let cancelled = false;
+    loadFillImages(canvasState.textLayers).then(() => {
+      if (!cancelled) setFillImagesLoaded(count => count + 1);
     });
+    return () => {
+      cancelled = true;
+    };
   }, [canvasState.textLayers]);
 
+  useEffect(() => {
+    return () => {
+      if (guideTimeoutRef.current) clearTimeout(guideTimeoutRef.current);
+    };
+  }, []);
+
   const snapToGrid = useCallback((value: number, gridSize: number = 20) => {
     return Math.round(value / gridSize) * gridSize;
   }, []);
 
-  const snapToCenter = useCallback((x: number, y: number, imageWidth: number, imageHeight: number) => {
-    const centerX = imageWidth / 2;
-    const centerY = imageHeight / 2;
-    const snapThreshold = 50; // pixels from center to snap
-    
-    let snappedX = x;
-    let snappedY = y;
-    
-    // Snap to vertical center
-    if (Math.abs(x - centerX) < snapThreshold) {
-      snappedX = centerX;
+  // Moves the layers in `origins` by the offset that brings `primary` to (x, y),
+  // snapping to the grid when it is shown or else to smart guides within
+  // `snapDistance` design pixels (0 disables smart guides). Ruler guides
+  // snap in both cases.
+  const moveLayers = useCallback((
+    origins: { id: string; x: number; y: number }[],
+    primary: { x: number; y: number },
+    x: number,
+    y: number,
+    change: Omit<HistoryChange, 'label'>,
+    snapDistance: number
+  ) => {
+    let dx = x - primary.x;
+    let dy = y - primary.y;
+    let matchedGuides: SnapGuide[] = [];
+
+    const movedLayers = canvasState.textLayers.filter(layer => origins.some(origin => origin.id === layer.id));
+    const tempCtx = getScratchContext();
+
+    if (showGrid) {
+      dx = snapToGrid(x) - primary.x;
+      dy = snapToGrid(y) - primary.y;
     }
-    
-    // Snap to horizontal center
-    if (Math.abs(y - centerY) < snapThreshold) {
-      snappedY = centerY;
+    if (snapDistance > 0 && tempCtx) {
+      const moving = movedLayers.map(layer => {
+        const origin = origins.find(o => o.id === layer.id)!;
+        return { ...layer, x: origin.x + dx, y: origin.y + dy };
+      });
+      const others = canvasState.textLayers.filter(layer => !movedLayers.includes(layer));
+      const result = snapLayers(tempCtx, moving, showGrid ? { guides: canvasState.guides } : {
+        layers: others,
+        canvas: { width: canvasState.imageWidth, height: canvasState.imageHeight },
+        guides: canvasState.guides,
+      }, snapDistance);
+      dx += result.dx;
+      dy += result.dy;
+      matchedGuides = result.guides;
     }
-    
-    return { x: snappedX, y: snappedY };
-  }, []);
+    setGuides(matchedGuides);
+
+    const updatedLayers = canvasState.textLayers.map(layer => {
+      const origin = origins.find(o => o.id === layer.id);
+      return origin ? { ...layer, x: origin.x + dx, y: origin.y + dy } : layer;
+    });
+
+    onUpdateCanvas({ textLayers: updatedLayers }, { ...change, label: `Move ${getLayersLabel(movedLayers)}` });
+  }, [canvasState.textLayers, canvasState.imageWidth, canvasState.imageHeight, canvasState.guides, showGrid, snapToGrid, getScratchContext, onUpdateCanvas]);
 
-  const nudgeLayer = useCallback((layerId: string, direction: 'up' | 'down' | 'left' | 'right', amount: number = 10) => {
-    const layer = canvasState.textLayers.find(l => l.id === layerId);
-    if (!layer) return;
+  const nudgeSelection = useCallback((direction: 'up' | 'down' | 'left' | 'right', amount: number = 10, snap: boolean = true) => {
+    const layers = getSelectedLayers(canvasState);
+    if (layers.length === 0) return;
+
+    // The first selected layer drives snapping; the rest keep their offsets
+    const layer = layers[0];
 
     let newX = layer.x;
     let newY = layer.y;
@@ -214,132 +354,317 @@ const Canvas: React.FC<CanvasProps> = ({
         break;
     }
 
-    // Snap to grid if enabled
-    if (showGrid) {
-      newX = snapToGrid(newX);
-      newY = snapToGrid(newY);
-    }
+    // Snap less than half a step, so a nudge can always leave a guide
+    const snapDistance = snap ? Math.min(snapThreshold * getPixelSize(), amount / 2 - 1) : 0;
+    const ids = layers.map(l => l.id);
+    moveLayers(layers, layer, newX, newY, { mergeKey: `nudge-${ids.join(',')}` }, snapDistance);
 
-    // Snap to center
-    const snapped = snapToCenter(newX, newY, canvasState.imageWidth, canvasState.imageHeight);
-    
-    const updatedLayers = canvasState.textLayers.map(l =>
-      l.id === layerId ? { ...l, x: snapped.x, y: snapped.y } : l
-    );
-    
-    onUpdateCanvas({ textLayers: updatedLayers });
-  }, [canvasState.textLayers, canvasState.imageWidth, canvasState.imageHeight, showGrid, snapToGrid, snapToCenter, onUpdateCanvas]);
+    // Show the matched guides briefly
+    if (guideTimeoutRef.current) clearTimeout(guideTimeoutRef.current);
+    guideTimeoutRef.current = setTimeout(() => setGuides([]), 600);
+  }, [canvasState, moveLayers, snapThreshold, getPixelSize]);
 
-  const getMousePos = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
+  const getMousePos = useCallback((e: { clientX: number; clientY: number }) => {
     const canvas = canvasRef.current;
     if (!canvas) return { x: 0, y: 0 };
     
+    // Undo the pan offset and zoom to get design coordinates. This works in
+    // CSS pixels, so it doesn't depend on the canvas bitmap's pixel ratio.
     const rect = canvas.getBoundingClientRect();
-    const x = (e.clientX - rect.left) / zoom;
-    const y = (e.clientY - rect.top) / zoom;
+    const x = (e.clientX - rect.left - viewport.panX) / viewport.zoom;
+    const y = (e.clientY - rect.top - viewport.panY) / viewport.zoom;
     
     return { x, y };
-  }, [zoom]);
+  }, [viewport]);
 
   const findLayerAtPosition = useCallback((x: number, y: number) => {
-    // Find layer at position (highest z-index first)
-    const sortedLayers = [...canvasState.textLayers].sort((a, b) => b.zIndex - a.zIndex);
-    
-    // Create a temporary canvas for text measurements
-    const tempCanvas = document.createElement('canvas');
-    const tempCtx = tempCanvas.getContext('2d');
-    
-    for (const layer of sortedLayers) {
-      if (layer.opacity > 0 && layer.isVisible && tempCtx) {
-        // Set up the font for measurement
-        tempCtx.font = `${layer.fontWeight === 'bold' ? 'bold' : 'normal'} ${layer.fontSize}px ${layer.fontFamily}`;
-        
-        // Calculate actual text bounds
-        const textMetrics = tempCtx.measureText(layer.text);
-        const textWidth = textMetrics.width;
-        const textHeight = layer.fontSize;
-        
-        // Calculate bounds based on text alignment
-        let layerX, layerY, layerWidth, layerHeight;
-        
-        if (layer.textAlign === 'left') {
-          layerX = layer.x;
-          layerY = layer.y - textHeight; // Adjust for text baseline
-          layerWidth = textWidth;
-          layerHeight = textHeight;
-        } else if (layer.textAlign === 'center') {
-          layerX = layer.x - textWidth / 2;
-          layerY = layer.y - textHeight; // Adjust for text baseline
-          layerWidth = textWidth;
-          layerHeight = textHeight;
-        } else { // right
-          layerX = layer.x - textWidth;
-          layerY = layer.y - textHeight; // Adjust for text baseline
-          layerWidth = textWidth;
-          layerHeight = textHeight;
-        }
-        
-        if (x >= layerX && x <= layerX + layerWidth && 
-            y >= layerY && y <= layerY + layerHeight) {
-          return layer;
-        }
+    // Hit-test with the same layout the renderer uses (highest z-index first)
+    const tempCtx = getScratchContext();
+    if (!tempCtx) return null;
+
+    return getLayerAtPoint(tempCtx, canvasState.textLayers, x, y);
+  }, [canvasState.textLayers, getScratchContext]);
+
+  const findHandleAtPosition = useCallback((x: number, y: number) => {
+    // Handles are only shown for a single selected layer
+    if (canvasState.selectedLayerIds.length !== 1) return null;
+    const layer = canvasState.textLayers.find(l => l.id === canvasState.selectedLayerIds[0]);
+    const tempCtx = getScratchContext();
+    if (!layer || !layer.isVisible || !tempCtx) return null;
+
+    const handle = getHandleAtPoint(tempCtx, layer, x, y, getPixelSize());
+    return handle ? { layer, handle } : null;
+  }, [canvasState.textLayers, canvasState.selectedLayerIds, getScratchContext, getPixelSize]);
+
+  const findGuideAtPosition = useCallback((x: number, y: number) => {
+    if (canvasState.guidesLocked) return null;
+    return getGuideAtPoint(canvasState.guides || [], x, y, GUIDE_HIT_TOLERANCE * getPixelSize());
+  }, [canvasState.guides, canvasState.guidesLocked, getPixelSize]);
+
+  const startGuideDrag = useCallback((axis: Guide['axis'], guide?: Guide) => {
+    setGuideDrag({ id: guide?.id ?? generateId(), axis, isNew: !guide, gesture: `guide-${Date.now()}` });
+    setHandleCursor(axis === 'x' ? 'col-resize' : 'row-resize');
+  }, []);
+
+  // Guide drags start on the rulers, so they follow the pointer across the whole window
+  useEffect(() => {
+    if (!guideDrag) return;
+
+    const handleGuideMove = (e: MouseEvent) => {
+      const pos = getMousePos(e);
+      const position = Math.round(guideDrag.axis === 'x' ? pos.x : pos.y);
+      const onCanvas = isGuideOnCanvas(guideDrag.axis, position, {
+        width: canvasState.imageWidth,
+        height: canvasState.imageHeight,
+      });
+      const guides = canvasState.guides || [];
+      const exists = guides.some(guide => guide.id === guideDrag.id);
+      if (!onCanvas && !exists) return;
+
+      const guide = { id: guideDrag.id, axis: guideDrag.axis, position };
+      let nextGuides = guides.filter(g => g.id !== guideDrag.id);
+      if (onCanvas) {
+        nextGuides = exists ? guides.map(g => (g.id === guide.id ? guide : g)) : [...guides, guide];
       }
-    }
-    return null;
-  }, [canvasState.textLayers]);
+
+      let label = onCanvas ? 'Move guide' : 'Remove guide';
+      if (guideDrag.isNew) {
+        label = 'Add guide';
+      }
+      onUpdateCanvas({ guides: nextGuides }, { label, mergeKey: guideDrag.gesture, mergeWindow: Infinity });
+    };
+    const handleGuideUp = () => {
+      setGuideDrag(null);
+      setHandleCursor(null);
+    };
+
+    window.addEventListener('mousemove', handleGuideMove);
+    window.addEventListener('mouseup', handleGuideUp);
+    return () => {
+      window.removeEventListener('mousemove', handleGuideMove);
+      window.removeEventListener('mouseup', handleGuideUp);
+    };
+  }, [guideDrag, canvasState.guides, canvasState.imageWidth, canvasState.imageHeight, getMousePos, onUpdateCanvas]);
 
   const handleMouseDown = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
     // If currently editing, don't allow dragging
     if (editingLayerId) return;
+
+    // Space+drag or the middle button pans the view
+    if (isSpaceDown || e.button === 1) {
+      e.preventDefault();
+      panRef.current = { start: { x: e.clientX, y: e.clientY }, pan: { x: viewport.panX, y: viewport.panY } };
+      setIsPanning(true);
+      return;
+    }
     
     const pos = getMousePos(e);
+
+    // While drawing a text path, clicks add points
+    if (pathDrawingLayerId) {
+      setPathPoints(points => {
+        const last = points[points.length - 1];
+        // The second click of a double-click finishes the path instead
+        if (last && Math.hypot(pos.x - last.x, pos.y - last.y) < 2 * getPixelSize()) return points;
+        return [...points, pos];
+      });
+      return;
+    }
+
+    // Handles of the selected layer take priority over the layers beneath them
+    const hit = findHandleAtPosition(pos.x, pos.y);
+    if (hit) {
+      transformRef.current = { handle: hit.handle, startLayer: hit.layer, start: pos };
+      dragGestureRef.current = `transform-${Date.now()}`;
+      return;
+    }
+
+    // Then ruler guides, unless they are locked
+    const guide = findGuideAtPosition(pos.x, pos.y);
+    if (guide) {
+      startGuideDrag(guide.axis, guide);
+      return;
+    }
+
     const layer = findLayerAtPosition(pos.x, pos.y);
+    const selectedIds = canvasState.selectedLayerIds;
+    // Shift or Ctrl/Cmd adds to or removes from the selection
+    const additive = e.shiftKey || e.ctrlKey || e.metaKey;
     
     if (layer) {
-      setSelectedId(layer.id);
-      onSelectLayer(layer.id);
-      setIsDragging(true);
-      setDragStart(pos);
-      setDragOffset({
-        x: pos.x - layer.x,
-        y: pos.y - layer.y
-      });
+      let nextIds = selectedIds.includes(layer.id) ? selectedIds : [layer.id];
+      if (additive) {
+        nextIds = toggleLayerSelection(selectedIds, layer.id);
+      }
+      onSelectLayers(nextIds);
+
+      // Dragging any selected layer moves the whole selection
+      if (nextIds.includes(layer.id)) {
+        dragRef.current = {
+          start: pos,
+          primaryId: layer.id,
+          origins: canvasState.textLayers
+            .filter(l => nextIds.includes(l.id))
+            .map(l => ({ id: l.id, x: l.x, y: l.y })),
+        };
+        dragGestureRef.current = `drag-${Date.now()}`;
+      }
     } else {
-      setSelectedId(null);
-      onSelectLayer(null);
+      if (!additive) {
+        onSelectLayers([]);
+      }
+      setMarquee({ start: pos, end: pos, baseIds: additive ? selectedIds : [] });
     }
-  }, [getMousePos, findLayerAtPosition, onSelectLayer, editingLayerId]);
+  }, [getMousePos, getPixelSize, findHandleAtPosition, findGuideAtPosition, startGuideDrag, findLayerAtPosition, canvasState.selectedLayerIds, canvasState.textLayers, onSelectLayers, editingLayerId, isSpaceDown, pathDrawingLayerId, viewport.panX, viewport.panY]);
+
+  const handleTransformMove = useCallback((pos: { x: number; y: number }, snap: boolean) => {
+    const transform = transformRef.current;
+    const tempCtx = getScratchContext();
+    if (!transform || !tempCtx) return;
+
+    const { handle, startLayer, start } = transform;
+    const updates = getHandleDragUpdates(tempCtx, startLayer, handle, start, pos, { snap });
+    const updatedLayers = canvasState.textLayers.map(layer =>
+      layer.id === startLayer.id ? fitTextLayer({ ...layer, ...updates }) : layer
+    );
+
+    let label = `Resize ${getLayersLabel([startLayer])}`;
+    if (handle === 'rotate') {
+      label = `Rotate ${getLayersLabel([startLayer])}`;
+    } else if ((handle === 'e' || handle === 'w') && !hasFixedBox(startLayer)) {
+      label = `Change wrap width of ${getLayersLabel([startLayer])}`;
+    }
+
+    // One history entry per gesture
+    onUpdateCanvas({ textLayers: updatedLayers }, {
+      label,
+      mergeKey: dragGestureRef.current,
+      mergeWindow: Infinity,
+    });
+  }, [canvasState.textLayers, getScratchContext, onUpdateCanvas]);
 
   const handleMouseMove = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
-    if (!isDragging || !selectedId || editingLayerId) return;
-    
+    if (editingLayerId || guideDrag) return;
+
+    const pan = panRef.current;
+    if (pan) {
+      onViewportChange(prev => ({
+        ...prev,
+        panX: pan.pan.x + e.clientX - pan.start.x,
+        panY: pan.pan.y + e.clientY - pan.start.y,
+      }));
+      return;
+    }
+
     const pos = getMousePos(e);
-    let newX = pos.x - dragOffset.x;
-    let newY = pos.y - dragOffset.y;
-    
-    // Snap to grid if enabled
-    if (showGrid) {
-      newX = snapToGrid(newX);
-      newY = snapToGrid(newY);
+
+    if (pathDrawingLayerId) {
+      setPathHover(pathPoints.length > 0 ? pos : null);
+      return;
     }
-    
-    // Snap to center
-    const snapped = snapToCenter(newX, newY, canvasState.imageWidth, canvasState.imageHeight);
-    
-    // Update the layer position immediately for smooth dragging
-    const updatedLayers = canvasState.textLayers.map(layer =>
-      layer.id === selectedId ? { ...layer, x: snapped.x, y: snapped.y } : layer
-    );
-    
-    // Update canvas state immediately for smooth dragging
-    onUpdateCanvas({ textLayers: updatedLayers });
-  }, [isDragging, selectedId, getMousePos, dragOffset, showGrid, snapToGrid, snapToCenter, canvasState.imageWidth, canvasState.imageHeight, canvasState.textLayers, onUpdateCanvas, editingLayerId]);
+
+    if (transformRef.current) {
+      handleTransformMove(pos, e.shiftKey);
+      return;
+    }
+
+    if (marquee) {
+      setMarquee({ ...marquee, end: pos });
+      return;
+    }
+
+    const drag = dragRef.current;
+    if (!drag) {
+      // Show a resize/rotate cursor over handles, and a move cursor over guides
+      const hit = findHandleAtPosition(pos.x, pos.y);
+      const guide = hit ? null : findGuideAtPosition(pos.x, pos.y);
+      let cursor: string | null = null;
+      if (hit) {
+        cursor = getHandleCursor(hit.handle, hit.layer.rotation);
+      } else if (guide) {
+        cursor = guide.axis === 'x' ? 'col-resize' : 'row-resize';
+      }
+      setHandleCursor(cursor);
+      return;
+    }
+
+    const primary = drag.origins.find(origin => origin.id === drag.primaryId);
+    if (!primary) return;
+
+    // Update canvas state immediately for smooth dragging; the whole drag is one undo step
+    // Alt temporarily disables smart guides
+    moveLayers(drag.origins, primary, primary.x + pos.x - drag.start.x, primary.y + pos.y - drag.start.y, {
+      mergeKey: dragGestureRef.current,
+      mergeWindow: Infinity,
+    }, e.altKey ? 0 : snapThreshold * getPixelSize());
+  }, [marquee, guideDrag, onViewportChange, getMousePos, moveLayers, editingLayerId, pathDrawingLayerId, pathPoints.length, handleTransformMove, findHandleAtPosition, findGuideAtPosition, snapThreshold, getPixelSize]);
 
   const handleMouseUp = useCallback(() => {
-    setIsDragging(false);
-  }, []);
+    if (panRef.current) {
+      panRef.current = null;
+      setIsPanning(false);
+    }
+    if (dragRef.current) {
+      setGuides([]);
+    }
+    dragRef.current = null;
+    transformRef.current = null;
+
+    if (!marquee) return;
+    setMarquee(null);
+
+    // A click on empty canvas only clears the selection
+    const bounds = getMarqueeBounds(marquee.start, marquee.end);
+    const minSize = 2 * getPixelSize();
+    const tempCtx = getScratchContext();
+    if (!tempCtx || (bounds.right - bounds.left < minSize && bounds.bottom - bounds.top < minSize)) return;
+
+    const ids = getLayersInBounds(tempCtx, canvasState.textLayers, bounds).map(layer => layer.id);
+    onSelectLayers([...marquee.baseIds, ...ids.filter(id => !marquee.baseIds.includes(id))]);
+  }, [marquee, canvasState.textLayers, getPixelSize, getScratchContext, onSelectLayers]);
+
+  // Finish gestures even when the button is released outside the canvas
+  useEffect(() => {
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => window.removeEventListener('mouseup', handleMouseUp);
+  }, [handleMouseUp]);
+
+  // Hands the drawn points over; a path needs at least two
+  const finishPathDrawing = useCallback((cancel: boolean = false) => {
+    onPathDrawn?.(!cancel && pathPoints.length >= 2 ? pathPoints : null);
+    setPathPoints([]);
+    setPathHover(null);
+  }, [pathPoints, onPathDrawn]);
+
+  // Each drawing starts from scratch
+  useEffect(() => {
+    setPathPoints([]);
+    setPathHover(null);
+  }, [pathDrawingLayerId]);
+
+  // Enter finishes the path and Escape abandons it
+  useEffect(() => {
+    if (!pathDrawingLayerId) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        finishPathDrawing();
+      } else if (e.key === 'Escape') {
+        e.preventDefault();
+        finishPathDrawing(true);
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [pathDrawingLayerId, finishPathDrawing]);
 
   const handleDoubleClick = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (pathDrawingLayerId) {
+      finishPathDrawing();
+      return;
+    }
+
     const pos = getMousePos(e);
     const layer = findLayerAtPosition(pos.x, pos.y);
     
@@ -347,9 +672,8 @@ const Canvas: React.FC<CanvasProps> = ({
       // Start editing existing layer
       setEditingLayerId(layer.id);
       setEditingText(layer.text);
-      setSelectedId(layer.id);
-      onSelectLayer(layer.id);
-    } else if (canvasState.image) {
+      onSelectLayers([layer.id]);
+    } else if (hasCanvas(canvasState) && pos.x >= 0 && pos.y >= 0 && pos.x <= canvasState.imageWidth && pos.y <= canvasState.imageHeight) {
       // Create new layer
       let x = pos.x;
       let y = pos.y;
@@ -364,54 +688,45 @@ const Canvas: React.FC<CanvasProps> = ({
       newLayer.zIndex = getNextZIndex(canvasState.textLayers);
       
       const updatedLayers = [...canvasState.textLayers, newLayer];
-      onUpdateCanvas({ textLayers: updatedLayers });
-      setSelectedId(newLayer.id);
-      onSelectLayer(newLayer.id);
+      onUpdateCanvas({ textLayers: updatedLayers }, { label: 'Add text' });
+      onSelectLayers([newLayer.id]);
       
       // Start editing the new layer immediately
       setEditingLayerId(newLayer.id);
       setEditingText(newLayer.text);
     }
-  }, [getMousePos, findLayerAtPosition, canvasState.image, canvasState.textLayers, showGrid, snapToGrid, onUpdateCanvas, onSelectLayer]);
+  }, [getMousePos, findLayerAtPosition, canvasState, showGrid, snapToGrid, onUpdateCanvas, onSelectLayers, pathDrawingLayerId, finishPathDrawing]);
 
   const handleTextEditSave = useCallback(() => {
-    if (editingLayerId && editingText.trim() !== '') {
-      // Create a temporary canvas to measure text dimensions
-      const tempCanvas = document.createElement('canvas');
-      const tempCtx = tempCanvas.getContext('2d');
-      
-      if (tempCtx) {
-        const layer = canvasState.textLayers.find(l => l.id === editingLayerId);
-        if (layer) {
-          tempCtx.font = `${layer.fontWeight === 'bold' ? 'bold' : 'normal'} ${layer.fontSize}px ${layer.fontFamily}`;
-          const textMetrics = tempCtx.measureText(editingText);
-          
-          const updatedLayers = canvasState.textLayers.map(l =>
-            l.id === editingLayerId ? { 
-              ...l, 
-              text: editingText,
-              width: textMetrics.width,
-              height: layer.fontSize
-            } : l
-          );
-          onUpdateCanvas({ textLayers: updatedLayers });
-        }
-      }
+    // The edited layer keeps the runs' styles and is measured from its laid-out text
+    if (editorLayer && editingText.trim() !== '') {
+      const updatedLayers = canvasState.textLayers.map(l =>
+        l.id === editorLayer.id ? editorLayer : l
+      );
+      onUpdateCanvas({ textLayers: updatedLayers }, { label: `Edit text ${getLayersLabel([editorLayer])}` });
     }
     setEditingLayerId(null);
     setEditingText('');
-  }, [editingLayerId, editingText, canvasState.textLayers, onUpdateCanvas]);
+  }, [editorLayer, editingText, canvasState.textLayers, onUpdateCanvas]);
 
   const handleTextEditCancel = useCallback(() => {
     setEditingLayerId(null);
     setEditingText('');
   }, []);
 
-  const handleOverlayClick = useCallback((e: React.MouseEvent) => {
-    if (e.target === e.currentTarget) {
-      handleTextEditCancel();
+  // Start each edit with the whole text selected
+  useEffect(() => {
+    if (editingLayerId) {
+      textAreaRef.current?.select();
     }
-  }, [handleTextEditCancel]);
+  }, [editingLayerId]);
+
+  // Clicking away commits the edit; switching windows keeps editing
+  const handleTextEditBlur = useCallback(() => {
+    if (document.hasFocus()) {
+      handleTextEditSave();
+    }
+  }, [handleTextEditSave]);
 
   const handleTextEditKeyDown = useCallback((e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
@@ -435,7 +750,8 @@ const Canvas: React.FC<CanvasProps> = ({
         return;
       }
 
-      if (selectedId) {
+      const selectedLayers = getSelectedLayers(canvasState);
+      if (selectedLayers.length > 0) {
         let direction: 'up' | 'down' | 'left' | 'right' | null = null;
         let amount = 10;
 
@@ -463,150 +779,257 @@ const Canvas: React.FC<CanvasProps> = ({
           if (e.shiftKey) {
             amount = 50;
           }
-          nudgeLayer(selectedId, direction, amount);
+          nudgeSelection(direction, amount, !e.altKey);
         }
 
-        // Handle rotation shortcuts
+        // Handle rotation shortcuts; each layer turns about its own anchor
+        const ids = selectedLayers.map(l => l.id);
         if (e.key === 'r' || e.key === 'R') {
           e.preventDefault();
-          const layer = canvasState.textLayers.find(l => l.id === selectedId);
-          if (layer) {
-            const rotationAmount = e.shiftKey ? 45 : 15; // 45° with Shift, 15° without
-            const newRotation = (layer.rotation + rotationAmount) % 360;
-            const updatedLayers = canvasState.textLayers.map(l =>
-              l.id === selectedId ? { ...l, rotation: newRotation } : l
-            );
-            onUpdateCanvas({ textLayers: updatedLayers });
-          }
+          const rotationAmount = e.shiftKey ? 45 : 15; // 45° with Shift, 15° without
+          const updatedLayers = canvasState.textLayers.map(l =>
+            ids.includes(l.id) ? { ...l, rotation: (l.rotation + rotationAmount) % 360 } : l
+          );
+          onUpdateCanvas({ textLayers: updatedLayers }, { label: `Rotate ${getLayersLabel(selectedLayers)}`, mergeKey: `rotate-${ids.join(',')}` });
         }
 
         // Handle rotation reset
         if (e.key === '0') {
           e.preventDefault();
           const updatedLayers = canvasState.textLayers.map(l =>
-            l.id === selectedId ? { ...l, rotation: 0 } : l
+            ids.includes(l.id) ? { ...l, rotation: 0 } : l
           );
-          onUpdateCanvas({ textLayers: updatedLayers });
+          onUpdateCanvas({ textLayers: updatedLayers }, { label: `Reset rotation of ${getLayersLabel(selectedLayers)}` });
         }
       }
     };
 
     document.addEventListener('keydown', handleKeyDown);
     return () => document.removeEventListener('keydown', handleKeyDown);
-  }, [selectedId, editingLayerId, nudgeLayer, canvasState.textLayers, onUpdateCanvas]);
+  }, [canvasState, editingLayerId, nudgeSelection, onUpdateCanvas]);
 
   // Remove the conflicting keyboard event handler from Canvas
   // The main page will handle keyboard events
 
-  const canvasWidth = canvasState.imageWidth * zoom;
-  const canvasHeight = canvasState.imageHeight * zoom;
+  const handleToggleGuidesLocked = useCallback(() => {
+    onUpdateCanvas(
+      { guidesLocked: !canvasState.guidesLocked },
+      { label: canvasState.guidesLocked ? 'Unlock guides' : 'Lock guides' }
+    );
+  }, [canvasState.guidesLocked, onUpdateCanvas]);
+
+  const handleClearGuides = useCallback(() => {
+    onUpdateCanvas({ guides: [] }, { label: 'Clear guides' });
+  }, [onUpdateCanvas]);
+
+  // Holding Space turns drags into panning
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || editingLayerId) return;
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.contentEditable === 'true') {
+        return;
+      }
+      // Keep the page from scrolling and focused buttons from clicking
+      e.preventDefault();
+      setIsSpaceDown(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === 'Space') setIsSpaceDown(false);
+    };
+    const handleBlur = () => setIsSpaceDown(false);
+
+    document.addEventListener('keydown', handleKeyDown);
+    document.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      document.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, [editingLayerId]);
 
-  if (!canvasState.image) {
+  if (!hasCanvas(canvasState)) {
     return (
       <div className="flex items-center justify-center h-full bg-gray-100 border-2 border-dashed border-gray-300 rounded-lg">
         <div className="text-center">
-          <p className="text-gray-500 mb-4">Upload an image to get started</p>
+          <p className="text-gray-500 mb-4">Upload an image or create a blank canvas to get started</p>
           <p className="text-sm text-gray-400">Double-click on the canvas to add text layers</p>
         </div>
       </div>
     );
   }
 
-  return (
-    <div className="relative">
-      {/* Canvas Container with enhanced styling */}
-      <div className="canvas-border rounded-lg shadow-soft bg-white overflow-hidden">
-        <canvas
-          ref={canvasRef}
-          width={canvasWidth}
-          height={canvasHeight}
-          className="block cursor-crosshair smooth-transition"
-          onMouseDown={handleMouseDown}
-          onMouseMove={handleMouseMove}
-          onMouseUp={handleMouseUp}
-          onDoubleClick={handleDoubleClick}
-          style={{
-            transform: `scale(${zoom})`,
-            transformOrigin: 'top left',
-            transition: 'transform 0.2s ease-out'
-          }}
-        />
-      </div>
+  // In-place editor laid over the layer being edited
+  const scratchContext = editorLayer ? getScratchContext() : null;
+  const editorBox = editorLayer && scratchContext ? getTextEditorBox(scratchContext, editorLayer) : null;
 
-      {/* Zoom indicator */}
-      {zoom !== 1 && (
-        <div className="absolute top-2 right-2 bg-black/70 text-white px-2 py-1 rounded text-xs font-medium">
-          {Math.round(zoom * 100)}%
-        </div>
-      )}
+  // Text on a path is edited as a visible straight line, as is mixed-font text
+  const isEditorVisible = isEditorPlain || (!!editorLayer && !!getLayerPath(editorLayer));
 
-      {/* Grid indicator */}
-      {showGrid && (
-        <div className="absolute top-2 left-2 bg-blue-500/80 text-white px-2 py-1 rounded text-xs font-medium">
-          Grid On
+  let cursor = handleCursor || undefined;
+  if (pathDrawingLayerId) {
+    cursor = 'crosshair';
+  } else if (isPanning) {
+    cursor = 'grabbing';
+  } else if (isSpaceDown) {
+    cursor = 'grab';
+  }
+
+  return (
+    <div className="relative flex flex-col w-full h-full">
+      {/* Horizontal ruler drags out horizontal guides */}
+      {showRulers && (
+        <div className="flex">
+          <div className="bg-gray-50" style={{ width: RULER_SIZE, height: RULER_SIZE }} />
+          <Ruler
+            orientation="horizontal"
+            length={viewportSize.width}
+            scale={viewport.zoom}
+            offset={viewport.panX}
+            pixelRatio={pixelRatio}
+            onMouseDown={(e) => {
+              e.preventDefault();
+              startGuideDrag('y');
+            }}
+          />
         </div>
       )}
 
-      {/* Inline Text Editor Modal */}
-      {editingLayerId && (
-        <div 
-          className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50"
-          onClick={handleOverlayClick}
-        >
-          <div 
-            className="bg-white rounded-lg shadow-2xl p-6 min-w-96 max-w-lg mx-4"
-            onClick={(e) => e.stopPropagation()}
+      <div className="flex flex-1 min-h-0">
+        {showRulers && (
+          <Ruler
+            orientation="vertical"
+            length={viewportSize.height}
+            scale={viewport.zoom}
+            offset={viewport.panY}
+            pixelRatio={pixelRatio}
+            onMouseDown={(e) => {
+              e.preventDefault();
+              startGuideDrag('x');
+            }}
+          />
+        )}
+
+        <div ref={viewportRef} className="relative flex-1 min-w-0 overflow-hidden">
+          {/* Design frame with enhanced styling; the canvas above draws the design into it */}
+          <div
+            className="absolute canvas-border shadow-soft bg-white pointer-events-none"
+            style={{
+              left: viewport.panX - 2,
+              top: viewport.panY - 2,
+              width: canvasState.imageWidth * viewport.zoom + 4,
+              height: canvasState.imageHeight * viewport.zoom + 4,
+            }}
           >
-            <div className="flex items-center justify-between mb-4">
-              <h3 className="text-lg font-semibold text-gray-900">Edit Text</h3>
-              <button
-                onClick={handleTextEditCancel}
-                className="text-gray-400 hover:text-gray-600 transition-colors"
-              >
-                ✕
-              </button>
-            </div>
+            <div className="w-full h-full canvas-checkerboard" />
+          </div>
+
+          <canvas
+            ref={canvasRef}
+            width={Math.round(viewportSize.width * pixelRatio)}
+            height={Math.round(viewportSize.height * pixelRatio)}
+            className="absolute inset-0 block cursor-crosshair"
+            onMouseDown={handleMouseDown}
+            onMouseMove={handleMouseMove}
+            onDoubleClick={handleDoubleClick}
+            style={{ cursor, width: viewportSize.width, height: viewportSize.height }}
+          />
+
+          {/* In-place text editor: the canvas draws the text live underneath,
+              the textarea supplies the caret and selection (plain fields show
+              their own text instead) */}
+          {editorLayer && editorBox && (
             <textarea
               ref={textAreaRef}
               value={editingText}
               onChange={(e) => setEditingText(e.target.value)}
+              onSelect={(e) => onTextSelect?.({
+                layerId: editorLayer.id,
+                start: e.currentTarget.selectionStart,
+                end: e.currentTarget.selectionEnd,
+              })}
               onKeyDown={handleTextEditKeyDown}
-              className="w-full h-32 p-3 border border-gray-300 rounded-lg resize-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              placeholder="Enter your text here..."
+              onBlur={handleTextEditBlur}
               autoFocus
+              spellCheck={false}
+              wrap={editorLayer.wrapWidth ? 'soft' : 'off'}
+              className="absolute m-0 border-0 bg-transparent outline-none resize-none overflow-hidden"
+              style={{
+                left: viewport.panX + editorLayer.x * viewport.zoom,
+                top: viewport.panY + editorLayer.y * viewport.zoom,
+                width: editorBox.width * viewport.zoom + EDITOR_PADDING * 2,
+                height: editorBox.height * viewport.zoom,
+                padding: `0 ${EDITOR_PADDING}px`,
+                transform: `rotate(${editorLayer.rotation}deg) translate(${
+                  editorBox.left * viewport.zoom - EDITOR_PADDING
+                }px, ${editorBox.top * viewport.zoom}px)`,
+                transformOrigin: '0 0',
+                font: getFontString(editorLayer, viewport.zoom),
+                lineHeight: `${editorBox.lineHeight * viewport.zoom}px`,
+                letterSpacing: `${(editorLayer.letterSpacing || 0) * viewport.zoom}px`,
+                textTransform: editorLayer.textTransform,
+                textAlign: editorLayer.textAlign,
+                whiteSpace: editorLayer.wrapWidth ? 'pre-wrap' : 'pre',
+                overflowWrap: 'break-word',
+                color: isEditorVisible ? editorLayer.color : 'transparent',
+                backgroundColor: isEditorVisible ? 'rgba(255, 255, 255, 0.9)' : 'transparent',
+                // The field's single font may need more room than the styled runs
+                overflowY: isEditorPlain ? 'auto' : undefined,
+                caretColor: editorLayer.color,
+              }}
             />
-            <div className="flex justify-end space-x-3 mt-4">
-              <button
-                onClick={handleTextEditCancel}
-                className="px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors"
-              >
-                Cancel
-              </button>
-              <button
-                onClick={handleTextEditSave}
-                className="px-4 py-2 bg-gradient-to-r from-blue-500 to-purple-500 text-white rounded-lg hover:from-blue-600 hover:to-purple-600 transition-all duration-200 btn-hover"
-              >
-                Save
-              </button>
+          )}
+
+          {pathDrawingLayerId && (
+            <div className="absolute top-2 left-1/2 -translate-x-1/2 bg-black/70 text-white px-2 py-1 rounded text-xs font-medium pointer-events-none">
+              Click to add points · Double-click or Enter to finish · Esc to cancel
             </div>
-          </div>
-        </div>
-      )}
+          )}
 
-      {/* Instructions overlay when no image */}
-      {!canvasState.image && (
-        <div className="absolute inset-0 flex items-center justify-center">
-          <div className="text-center p-8 bg-white/90 backdrop-blur-sm rounded-lg shadow-lg max-w-md">
-            <div className="w-16 h-16 bg-gradient-to-r from-blue-500 to-purple-500 rounded-full flex items-center justify-center mx-auto mb-4">
-              <span className="text-white text-2xl">📷</span>
+          {/* Zoom indicator */}
+          {viewport.zoom !== 1 && (
+            <div className="absolute top-2 right-2 bg-black/70 text-white px-2 py-1 rounded text-xs font-medium">
+              {Math.round(viewport.zoom * 100)}%
             </div>
-            <h3 className="text-lg font-semibold text-gray-900 mb-2">Upload an Image</h3>
-            <p className="text-gray-600 text-sm">
-              Start by uploading a PNG image to begin composing your text overlay design.
-            </p>
-          </div>
+          )}
+
+          {/* Grid indicator */}
+          {showGrid && (
+            <div className="absolute top-2 left-2 bg-blue-500/80 text-white px-2 py-1 rounded text-xs font-medium">
+              Grid On
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Guide controls */}
+      {canvasState.guides && canvasState.guides.length > 0 && (
+        <div className="flex items-center justify-end space-x-3 mt-2 text-xs text-gray-600">
+          <span>
+            {canvasState.guides.length} {canvasState.guides.length === 1 ? 'guide' : 'guides'}
+          </span>
+          <button
+            onClick={handleToggleGuidesLocked}
+            className={`flex items-center space-x-1 transition-colors ${
+              canvasState.guidesLocked ? 'text-blue-600' : 'hover:text-gray-800'
+            }`}
+            title={canvasState.guidesLocked ? 'Unlock guides' : 'Lock guides'}
+          >
+            {canvasState.guidesLocked ? <Lock className="w-3 h-3" /> : <Unlock className="w-3 h-3" />}
+            <span>{canvasState.guidesLocked ? 'Locked' : 'Lock'}</span>
+          </button>
+          <button
+            onClick={handleClearGuides}
+            className="flex items-center space-x-1 hover:text-red-600 transition-colors"
+            title="Remove all guides"
+          >
+            <Trash2 className="w-3 h-3" />
+            <span>Clear</span>
+          </button>
         </div>
       )}
+
     </div>
   );
 };
@@ -1,9 +1,11 @@
 'use client';
 
-import React, { useState, useRef } from 'react';
-import { CanvasState, ExportOptions } from '@/types';
-import { downloadImage } from '@/lib/utils';
+import React, { useState, useRef, useEffect } from 'react';
+import { CanvasState, ExportFormat, ExportOptions } from '@/types';
+import { downloadImage, hasCanvas } from '@/lib/utils';
+import { EXPORT_FORMATS, getExportSize, isExportFormatSupported } from '@/lib/export';
 import { Download, Settings, Image as ImageIcon } from 'lucide-react';
+import BatchExport from '@/components/BatchExport';
 
 interface ExportPanelProps {
   canvasState: CanvasState;
@@ -18,9 +20,15 @@ const ExportPanel: React.FC<ExportPanelProps> = ({ canvasState, onExport }) => {
     quality: 1,
     scale: 1,
   });
+  const [supportedFormats, setSupportedFormats] = useState<ExportFormat[]>(['png', 'jpg', 'svg']);
+
+  // Encoder support can only be probed in the browser
+  useEffect(() => {
+    setSupportedFormats((Object.keys(EXPORT_FORMATS) as ExportFormat[]).filter(isExportFormatSupported));
+  }, []);
 
   const handleExport = async () => {
-    if (!canvasState.image) return;
+    if (!hasCanvas(canvasState)) return;
 
     setIsExporting(true);
     try {
@@ -35,7 +43,7 @@ const ExportPanel: React.FC<ExportPanelProps> = ({ canvasState, onExport }) => {
     }
   };
 
-  const handleFormatChange = (format: 'png' | 'jpg') => {
+  const handleFormatChange = (format: ExportFormat) => {
     setExportOptions(prev => ({ ...prev, format }));
   };
 
@@ -47,11 +55,16 @@ const ExportPanel: React.FC<ExportPanelProps> = ({ canvasState, onExport }) => {
     setExportOptions(prev => ({ ...prev, scale }));
   };
 
-  if (!canvasState.image) {
+  // Export sizes are based on the original image resolution
+  const { width: sourceWidth, height: sourceHeight } = getExportSize(canvasState, { scale: 1 });
+  const { width: outputWidth, height: outputHeight } = getExportSize(canvasState, exportOptions);
+  const formatInfo = EXPORT_FORMATS[exportOptions.format];
+
+  if (!hasCanvas(canvasState)) {
     return (
       <div className="p-6 text-center text-gray-500">
         <ImageIcon className="w-8 h-8 mx-auto mb-2 text-gray-400" />
-        <p>Upload an image to enable export</p>
+        <p>Upload an image or create a blank canvas to enable export</p>
       </div>
     );
   }
@@ -77,28 +90,32 @@ const ExportPanel: React.FC<ExportPanelProps> = ({ canvasState, onExport }) => {
             <label className="block text-sm font-medium text-gray-700 mb-2">
               Format
             </label>
-            <div className="flex space-x-2">
-              {[
-                { value: 'png' as const, label: 'PNG' },
-                { value: 'jpg' as const, label: 'JPEG' },
-              ].map(({ value, label }) => (
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((value) => (
                 <button
                   key={value}
                   onClick={() => handleFormatChange(value)}
-                  className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                  disabled={!supportedFormats.includes(value)}
+                  className={`px-3 py-1 rounded-md text-sm font-medium transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
                     exportOptions.format === value
                       ? 'bg-blue-500 text-white'
                       : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
                   }`}
+                  title={supportedFormats.includes(value) ? EXPORT_FORMATS[value].label : 'Not supported by this browser'}
                 >
-                  {label}
+                  {EXPORT_FORMATS[value].label}
                 </button>
               ))}
             </div>
+            {exportOptions.format === 'svg' && (
+              <p className="text-xs text-gray-500 mt-2">
+                Text stays editable: layers are exported as SVG text with web-font references
+              </p>
+            )}
           </div>
 
-          {/* Quality (for JPEG) */}
-          {exportOptions.format === 'jpg' && (
+          {/* Quality (for lossy formats) */}
+          {formatInfo.lossy && (
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Quality: {Math.round(exportOptions.quality * 100)}%
@@ -130,7 +147,7 @@ const ExportPanel: React.FC<ExportPanelProps> = ({ canvasState, onExport }) => {
               className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
             />
             <p className="text-xs text-gray-500 mt-1">
-              Output size: {Math.round(canvasState.imageWidth * exportOptions.scale)} × {Math.round(canvasState.imageHeight * exportOptions.scale)}px
+              Output size: {outputWidth} × {outputHeight}px
             </p>
           </div>
         </div>
@@ -156,7 +173,7 @@ const ExportPanel: React.FC<ExportPanelProps> = ({ canvasState, onExport }) => {
         ) : (
           <>
             <Download className="w-4 h-4 mr-2" />
-            Export as {exportOptions.format.toUpperCase()}
+            Export as {formatInfo.label}
           </>
         )}
       </button>
@@ -164,14 +181,26 @@ const ExportPanel: React.FC<ExportPanelProps> = ({ canvasState, onExport }) => {
       {/* Image Info */}
       <div className="p-3 bg-gray-50 rounded-lg">
         <div className="text-sm text-gray-600">
-          <p><strong>Original size:</strong> {canvasState.imageWidth} × {canvasState.imageHeight}px</p>
+          <p><strong>Original size:</strong> {sourceWidth} × {sourceHeight}px</p>
+          {formatInfo.alpha && (
+            <p><strong>Transparency:</strong> preserved</p>
+          )}
           <p><strong>Text layers:</strong> {canvasState.textLayers.length}</p>
           {exportOptions.scale !== 1 && (
-            <p><strong>Export size:</strong> {Math.round(canvasState.imageWidth * exportOptions.scale)} × {Math.round(canvasState.imageHeight * exportOptions.scale)}px</p>
+            <p><strong>Export size:</strong> {outputWidth} × {outputHeight}px</p>
           )}
         </div>
       </div>
 
+      <div className="border-t border-gray-200 pt-4">
+        <BatchExport
+          canvasState={canvasState}
+          currentFormat={exportOptions.format}
+          currentQuality={exportOptions.quality}
+          currentScale={exportOptions.scale}
+        />
+      </div>
+
       <style jsx>{`
         .slider::-webkit-slider-thumb {
           appearance: none;
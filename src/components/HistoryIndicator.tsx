@@ -2,42 +2,42 @@
 
 import React from 'react';
 import { Undo, Redo, History } from 'lucide-react';
+import { HistoryEntry } from '@/lib/history';
 
 interface HistoryIndicatorProps {
-  historyLength: number;
+  entries: HistoryEntry[];
+  // Number of entries currently applied
   currentIndex: number;
-  maxSteps: number;
   canUndo: boolean;
   canRedo: boolean;
   onUndo: () => void;
   onRedo: () => void;
+  onJumpTo: (index: number) => void;
 }
 
+// Entries shown around the current position
+const VISIBLE_ENTRIES = 6;
+
 const HistoryIndicator: React.FC<HistoryIndicatorProps> = ({
-  historyLength,
+  entries,
   currentIndex,
-  maxSteps,
   canUndo,
   canRedo,
   onUndo,
   onRedo,
+  onJumpTo,
 }) => {
-  // Calculate progress percentage based on current position in history
-  // Handle edge cases to prevent NaN or values > 100%
-  const historyPercentage = historyLength > 1 
-    ? Math.min(100, Math.max(0, (currentIndex / (historyLength - 1)) * 100))
-    : historyLength === 1 
-      ? 100 
-      : 0;
-  
-  const stepsUsed = historyLength;
-  const stepsRemaining = maxSteps - stepsUsed;
-
   // Don't show the indicator if there's no history yet
-  if (historyLength === 0) {
+  if (entries.length === 0) {
     return null;
   }
 
+  // Window of steps ending a little past the current one; step 0 is the
+  // state before the first entry
+  const lastVisible = Math.min(entries.length, currentIndex + 2);
+  const firstVisible = Math.max(0, lastVisible - VISIBLE_ENTRIES);
+  const visibleSteps = Array.from({ length: lastVisible - firstVisible + 1 }, (_, i) => firstVisible + i).reverse();
+
   return (
     <div className="fixed bottom-4 right-4 bg-white/95 backdrop-blur-md rounded-xl shadow-2xl border border-gray-200/50 p-4 min-w-72">
       <div className="flex items-center justify-between mb-4">
@@ -48,36 +48,31 @@ const HistoryIndicator: React.FC<HistoryIndicatorProps> = ({
           <span className="text-sm font-semibold text-gray-800">History</span>
         </div>
         <div className="text-xs font-medium text-gray-500 bg-gray-100 px-2 py-1 rounded-full">
-          {stepsUsed}/{maxSteps}
+          {currentIndex}/{entries.length}
         </div>
       </div>
 
-      {/* History Progress Bar */}
-      <div className="mb-4">
-        <div className="flex items-center justify-between text-xs text-gray-600 mb-2">
-          <span>Progress</span>
-          <span className="font-medium">{Math.round(historyPercentage)}%</span>
-        </div>
-        <div className="w-full bg-gray-200 rounded-full h-2 overflow-hidden">
-          <div 
-            className="bg-gradient-to-r from-blue-500 to-purple-500 h-2 rounded-full transition-all duration-300 ease-out"
-            style={{ width: `${historyPercentage}%` }}
-          />
-        </div>
-      </div>
-
-      {/* Steps Usage */}
-      <div className="mb-4">
-        <div className="flex items-center justify-between text-xs text-gray-600 mb-2">
-          <span>Steps Used</span>
-          <span className="font-medium">{stepsUsed}</span>
-        </div>
-        <div className="w-full bg-gray-200 rounded-full h-2 overflow-hidden">
-          <div 
-            className="bg-gradient-to-r from-green-500 to-emerald-500 h-2 rounded-full transition-all duration-300 ease-out"
-            style={{ width: `${(stepsUsed / maxSteps) * 100}%` }}
-          />
-        </div>
+      {/* Recent Steps */}
+      <div className="mb-4 space-y-1">
+        {visibleSteps.map(step => (
+          <button
+            key={step}
+            onClick={() => onJumpTo(step)}
+            className={`
+              w-full flex items-center justify-between px-2 py-1 rounded text-xs text-left transition-colors
+              ${step === currentIndex
+                ? 'bg-gradient-to-r from-blue-50 to-purple-50 text-blue-700 font-medium'
+                : step > currentIndex
+                  ? 'text-gray-400 hover:bg-gray-50'
+                  : 'text-gray-600 hover:bg-gray-50'
+              }
+            `}
+            title={step > currentIndex ? 'Redo to here' : 'Undo to here'}
+          >
+            <span className="truncate">{step === 0 ? 'Start' : entries[step - 1].label}</span>
+            {step === currentIndex && <span className="ml-2 w-1.5 h-1.5 rounded-full bg-blue-500 flex-shrink-0" />}
+          </button>
+        ))}
       </div>
 
       {/* Undo/Redo Buttons */}
@@ -114,40 +109,14 @@ const HistoryIndicator: React.FC<HistoryIndicatorProps> = ({
         </button>
       </div>
 
-      {/* Current Position Indicator */}
-      {historyLength > 1 && (
-        <div className="pt-3 border-t border-gray-200/50">
-          <div className="flex items-center justify-between text-xs text-gray-600 mb-2">
-            <span>Current Position</span>
-            <span className="font-medium">{currentIndex + 1} of {historyLength}</span>
-          </div>
-          <div className="flex space-x-1">
-            {Array.from({ length: Math.min(historyLength, 12) }, (_, i) => (
-              <div
-                key={i}
-                className={`
-                  flex-1 h-1.5 rounded-full transition-all duration-200
-                  ${i === currentIndex 
-                    ? 'bg-gradient-to-r from-blue-500 to-purple-500' 
-                    : i < currentIndex 
-                      ? 'bg-gray-300' 
-                      : 'bg-gray-100'
-                  }
-                `}
-              />
-            ))}
-          </div>
-        </div>
-      )}
-
       {/* Status Indicator */}
       <div className="mt-3 pt-3 border-t border-gray-200/50">
         <div className="flex items-center justify-between text-xs">
           <span className="text-gray-500">Status</span>
           <div className="flex items-center space-x-1">
-            <div className={`w-2 h-2 rounded-full ${historyLength > 0 ? 'bg-green-500' : 'bg-gray-300'}`}></div>
-            <span className={`text-xs ${historyLength > 0 ? 'text-green-600' : 'text-gray-400'}`}>
-              {historyLength > 0 ? 'Active' : 'Ready'}
+            <div className={`w-2 h-2 rounded-full ${entries.length > 0 ? 'bg-green-500' : 'bg-gray-300'}`}></div>
+            <span className={`text-xs ${entries.length > 0 ? 'text-green-600' : 'text-gray-400'}`}>
+              {entries.length > 0 ? 'Active' : 'Ready'}
             </span>
           </div>
         </div>
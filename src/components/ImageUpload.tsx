@@ -2,11 +2,13 @@
 
 import React, { useCallback, useState, useRef } from 'react';
 import { Upload, Image as ImageIcon } from 'lucide-react';
+import { calculateAspectRatioFit, MAX_DESIGN_WIDTH, MAX_DESIGN_HEIGHT } from '@/lib/utils';
 
 interface ImageUploadProps {
-  onImageUpload: (imageData: string, width: number, height: number) => void;
+  onImageUpload: (imageData: string, width: number, height: number, sourceWidth: number, sourceHeight: number) => void;
 }
 
+
 const ImageUpload: React.FC<ImageUploadProps> = ({ onImageUpload }) => {
   const [isDragOver, setIsDragOver] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
@@ -34,35 +36,21 @@ const ImageUpload: React.FC<ImageUploadProps> = ({ onImageUpload }) => {
     const reader = new FileReader();
     
     reader.onload = (e) => {
+      const dataUrl = e.target?.result as string;
       const img = new Image();
       img.onload = () => {
-        const canvas = document.createElement('canvas');
-        const ctx = canvas.getContext('2d');
+        // Keep the original file untouched; only the design size is fitted
+        const sourceWidth = img.naturalWidth;
+        const sourceHeight = img.naturalHeight;
+        let width = sourceWidth;
+        let height = sourceHeight;
         
-        if (ctx) {
-          // Calculate dimensions to fit within reasonable bounds
-          const maxWidth = 1200;
-          const maxHeight = 800;
-          let { width, height } = img;
-          
-          if (width > maxWidth || height > maxHeight) {
-            const ratio = Math.min(maxWidth / width, maxHeight / height);
-            width *= ratio;
-            height *= ratio;
-          }
-          
-          canvas.width = width;
-          canvas.height = height;
-          
-          // Draw image with white background
-          ctx.fillStyle = '#ffffff';
-          ctx.fillRect(0, 0, width, height);
-          ctx.drawImage(img, 0, 0, width, height);
-          
-          const dataUrl = canvas.toDataURL('image/png');
-          onImageUpload(dataUrl, width, height);
-          setSuccessMessage('Image uploaded successfully!');
+        if (width > MAX_DESIGN_WIDTH || height > MAX_DESIGN_HEIGHT) {
+          ({ width, height } = calculateAspectRatioFit(width, height, MAX_DESIGN_WIDTH, MAX_DESIGN_HEIGHT));
         }
+        
+        onImageUpload(dataUrl, width, height, sourceWidth, sourceHeight);
+        setSuccessMessage(`Image uploaded successfully! (${sourceWidth} × ${sourceHeight}px)`);
         setIsUploading(false);
       };
       
@@ -71,7 +59,7 @@ const ImageUpload: React.FC<ImageUploadProps> = ({ onImageUpload }) => {
         setIsUploading(false);
       };
       
-      img.src = e.target?.result as string;
+      img.src = dataUrl;
     };
     
     reader.onerror = () => {
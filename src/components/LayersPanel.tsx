@@ -1,8 +1,10 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useState, useRef } from 'react';
 import { TextLayer } from '@/types';
 import { reorderLayers, normalizeZIndexes } from '@/lib/utils';
+import { HistoryChange, getLayerLabel } from '@/lib/history';
+import { toggleLayerSelection } from '@/lib/selection';
 import {
   Eye,
   EyeOff,
@@ -14,26 +16,36 @@ import {
 
 interface LayersPanelProps {
   layers: TextLayer[];
-  selectedLayerId: string | null;
-  onSelectLayer: (layerId: string) => void;
-  onUpdateLayers: (layers: TextLayer[]) => void;
+  selectedLayerIds: string[];
+  // `additive` is true for Shift/Ctrl-clicks that extend the selection
+  onSelectLayers: (layerIds: string[], additive: boolean) => void;
+  onUpdateLayers: (layers: TextLayer[], change: HistoryChange) => void;
   onDeleteLayer: (layerId: string) => void;
   onDuplicateLayer: (layerId: string) => void;
 }
 
 const LayersPanel: React.FC<LayersPanelProps> = ({
   layers,
-  selectedLayerId,
-  onSelectLayer,
+  selectedLayerIds,
+  onSelectLayers,
   onUpdateLayers,
   onDeleteLayer,
   onDuplicateLayer,
 }) => {
   const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
   const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
+  // Each drag gets its own key so the whole reorder is one undo step
+  const dragGestureRef = useRef('');
+
+  const getReorderChange = (): HistoryChange => ({
+    label: 'Reorder layers',
+    mergeKey: dragGestureRef.current,
+    mergeWindow: Infinity,
+  });
 
   const handleDragStart = (layerId: string) => {
     const originalIndex = layers.findIndex(l => l.id === layerId);
+    dragGestureRef.current = `reorder-${Date.now()}`;
     setDraggedIndex(originalIndex);
   };
 
@@ -45,7 +57,7 @@ const LayersPanel: React.FC<LayersPanelProps> = ({
     if (draggedIndex === null || draggedIndex === targetIndex) return;
 
     const newLayers = reorderLayers(layers, draggedIndex, targetIndex);
-    onUpdateLayers(newLayers);
+    onUpdateLayers(newLayers, getReorderChange());
     setDraggedIndex(targetIndex);
   };
 
@@ -59,15 +71,28 @@ const LayersPanel: React.FC<LayersPanelProps> = ({
     // Ensure z-indexes are normalized after drag operations
     const normalizedLayers = normalizeZIndexes(layers);
     if (JSON.stringify(normalizedLayers.map(l => l.zIndex)) !== JSON.stringify(layers.map(l => l.zIndex))) {
-      onUpdateLayers(normalizedLayers);
+      onUpdateLayers(normalizedLayers, getReorderChange());
+    }
+  };
+
+  const handleLayerClick = (e: React.MouseEvent, layerId: string) => {
+    if (e.shiftKey || e.ctrlKey || e.metaKey) {
+      onSelectLayers(toggleLayerSelection(selectedLayerIds, layerId), true);
+    } else {
+      onSelectLayers([layerId], false);
     }
   };
 
   const handleToggleVisibility = (layerId: string) => {
+    const target = layers.find(layer => layer.id === layerId);
+    if (!target) return;
+
     const updatedLayers = layers.map(layer =>
       layer.id === layerId ? { ...layer, isVisible: !layer.isVisible } : layer
     );
-    onUpdateLayers(updatedLayers);
+    onUpdateLayers(updatedLayers, {
+      label: `${target.isVisible ? 'Hide' : 'Show'} ${getLayerLabel(target)}`,
+    });
   };
 
   const handleMoveLayer = (layerId: string, direction: 'up' | 'down') => {
@@ -84,7 +109,9 @@ const LayersPanel: React.FC<LayersPanelProps> = ({
     }
 
     const newLayers = reorderLayers(layers, currentIndex, newIndex);
-    onUpdateLayers(newLayers);
+    onUpdateLayers(newLayers, {
+      label: `Move ${getLayerLabel(layers[currentIndex])} ${direction === 'up' ? 'forward' : 'backward'}`,
+    });
   };
 
 
@@ -122,14 +149,14 @@ const LayersPanel: React.FC<LayersPanelProps> = ({
               onDragEnd={handleDragEnd}
               className={`
                 group relative bg-white border rounded-lg p-3 transition-all duration-200 cursor-pointer
-                ${selectedLayerId === layer.id
+                ${selectedLayerIds.includes(layer.id)
                   ? 'border-blue-500 shadow-glow bg-blue-50'
                   : 'border-gray-200 hover:border-gray-300 hover:shadow-soft'
                 }
                 ${draggedIndex === layers.findIndex(l => l.id === layer.id) ? 'opacity-50 scale-95' : ''}
                 ${dragOverIndex === layers.findIndex(l => l.id === layer.id) && draggedIndex !== layers.findIndex(l => l.id === layer.id) ? 'border-green-400 bg-green-50' : ''}
               `}
-              onClick={() => onSelectLayer(layer.id)}
+              onClick={(e) => handleLayerClick(e, layer.id)}
             >
               {/* Layer Content */}
               <div className="flex items-center space-x-3">
@@ -141,7 +168,7 @@ const LayersPanel: React.FC<LayersPanelProps> = ({
                 {/* Layer Icon */}
                 <div className={`
                   w-8 h-8 rounded-full flex items-center justify-center text-xs font-medium
-                  ${selectedLayerId === layer.id
+                  ${selectedLayerIds.includes(layer.id)
                     ? 'bg-blue-500 text-white'
                     : 'bg-gray-100 text-gray-600'
                   }
@@ -262,6 +289,7 @@ const LayersPanel: React.FC<LayersPanelProps> = ({
           <h4 className="text-xs font-medium text-gray-700 mb-2">💡 Layer Tips:</h4>
           <ul className="text-xs text-gray-600 space-y-1">
             <li>• Click to select • Drag to reorder • Hover for actions</li>
+            <li>• Shift or Ctrl-click to select several layers</li>
             <li>• Higher layers appear on top • Use arrow keys to nudge</li>
           </ul>
         </div>
@@ -0,0 +1,225 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  ProjectSummary,
+  listProjects,
+  renameProject,
+  duplicateProject,
+  deleteProject,
+} from '@/lib/projectStore';
+import { X, Copy, Trash2, Pencil, FolderOpen, Image as ImageIcon } from 'lucide-react';
+
+interface ProjectPickerProps {
+  isOpen: boolean;
+  currentProjectId: string | null;
+  onClose: () => void;
+  onOpenProject: (id: string) => void;
+  onProjectRenamed: (id: string, name: string) => void;
+  onProjectDeleted: (id: string) => void;
+}
+
+const formatModified = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' }) +
+    ' ' + date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+};
+
+const ProjectPicker: React.FC<ProjectPickerProps> = ({
+  isOpen,
+  currentProjectId,
+  onClose,
+  onOpenProject,
+  onProjectRenamed,
+  onProjectDeleted,
+}) => {
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setProjects(await listProjects());
+    } catch (err) {
+      console.error('Failed to list projects:', err);
+      setError('Could not read the project library');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      refresh();
+    }
+  }, [isOpen, refresh]);
+
+  const handleStartRename = (project: ProjectSummary) => {
+    setRenamingId(project.id);
+    setRenameValue(project.name);
+  };
+
+  const handleRename = async () => {
+    if (!renamingId) return;
+
+    const name = renameValue.trim();
+    const id = renamingId;
+    setRenamingId(null);
+    if (!name) return;
+
+    try {
+      await renameProject(id, name);
+      onProjectRenamed(id, name);
+      await refresh();
+    } catch (err) {
+      console.error('Failed to rename project:', err);
+      setError('Failed to rename project');
+    }
+  };
+
+  const handleDuplicate = async (id: string) => {
+    try {
+      await duplicateProject(id);
+      await refresh();
+    } catch (err) {
+      console.error('Failed to duplicate project:', err);
+      setError('Failed to duplicate project');
+    }
+  };
+
+  const handleDelete = async (project: ProjectSummary) => {
+    if (!confirm(`Delete "${project.name}"? This cannot be undone.`)) return;
+
+    try {
+      await deleteProject(project.id);
+      onProjectDeleted(project.id);
+      await refresh();
+    } catch (err) {
+      console.error('Failed to delete project:', err);
+      setError('Failed to delete project');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-2xl w-full max-w-3xl max-h-[80vh] mx-4 flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900">Projects</h3>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
+            title="Close"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4">
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              {error}
+            </div>
+          )}
+
+          {isLoading && projects.length === 0 ? (
+            <p className="text-center text-sm text-gray-500 py-8">Loading projects...</p>
+          ) : projects.length === 0 ? (
+            <p className="text-center text-sm text-gray-500 py-8">
+              No saved projects yet. Designs are saved here automatically as you work.
+            </p>
+          ) : (
+            <div className="grid grid-cols-3 gap-4">
+              {projects.map(project => (
+                <div
+                  key={project.id}
+                  className={`border rounded-lg overflow-hidden ${
+                    project.id === currentProjectId ? 'border-blue-500 ring-2 ring-blue-200' : 'border-gray-200'
+                  }`}
+                >
+                  <button
+                    onClick={() => onOpenProject(project.id)}
+                    className="w-full h-32 flex items-center justify-center canvas-checkerboard"
+                    title="Open project"
+                  >
+                    {project.thumbnail ? (
+                      // eslint-disable-next-line @next/next/no-img-element
+                      <img src={project.thumbnail} alt={project.name} className="max-w-full max-h-full object-contain" />
+                    ) : (
+                      <ImageIcon className="w-8 h-8 text-gray-400" />
+                    )}
+                  </button>
+
+                  <div className="p-2 space-y-1">
+                    {renamingId === project.id ? (
+                      <input
+                        type="text"
+                        value={renameValue}
+                        autoFocus
+                        onChange={(e) => setRenameValue(e.target.value)}
+                        onBlur={handleRename}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') handleRename();
+                          if (e.key === 'Escape') setRenamingId(null);
+                        }}
+                        className="w-full p-1 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black bg-white"
+                      />
+                    ) : (
+                      <p className="text-sm font-medium text-gray-900 truncate" title={project.name}>
+                        {project.name}
+                      </p>
+                    )}
+                    <p className="text-xs text-gray-500">
+                      {project.width}×{project.height} · {formatModified(project.updatedAt)}
+                    </p>
+
+                    <div className="flex items-center justify-end space-x-1">
+                      <button
+                        onClick={() => onOpenProject(project.id)}
+                        className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
+                        title="Open"
+                      >
+                        <FolderOpen className="w-3 h-3" />
+                      </button>
+                      <button
+                        onClick={() => handleStartRename(project)}
+                        className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
+                        title="Rename"
+                      >
+                        <Pencil className="w-3 h-3" />
+                      </button>
+                      <button
+                        onClick={() => handleDuplicate(project.id)}
+                        className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
+                        title="Duplicate"
+                      >
+                        <Copy className="w-3 h-3" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(project)}
+                        className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                        title="Delete"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectPicker;
@@ -0,0 +1,104 @@
+'use client';
+
+import React, { useEffect, useRef } from 'react';
+import { getRulerStep } from '@/lib/guides';
+
+// Ruler thickness in screen pixels
+export const RULER_SIZE = 20;
+
+interface RulerProps {
+  orientation: 'horizontal' | 'vertical';
+  // On-screen length in pixels
+  length: number;
+  // Screen pixels per design pixel
+  scale: number;
+  // Screen position of the design origin along the ruler
+  offset: number;
+  // Device pixels per CSS pixel
+  pixelRatio?: number;
+  onMouseDown: (e: React.MouseEvent<HTMLCanvasElement>) => void;
+}
+
+const Ruler: React.FC<RulerProps> = ({ orientation, length, scale, offset, pixelRatio = 1, onMouseDown }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const isHorizontal = orientation === 'horizontal';
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || scale <= 0) return;
+
+    // Draw in CSS pixels onto a device-resolution bitmap
+    const width = isHorizontal ? length : RULER_SIZE;
+    const height = isHorizontal ? RULER_SIZE : length;
+    ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+    ctx.fillStyle = '#f9fafb';
+    ctx.fillRect(0, 0, width, height);
+    ctx.fillStyle = '#d1d5db';
+    if (isHorizontal) {
+      ctx.fillRect(0, RULER_SIZE - 1, width, 1);
+    } else {
+      ctx.fillRect(RULER_SIZE - 1, 0, 1, height);
+    }
+
+    // Labelled ticks every `step` image pixels, with minor ticks between
+    const step = getRulerStep(scale);
+    const minor = step % 5 === 0 ? step / 5 : step / 2;
+    const first = Math.ceil(-offset / scale / minor);
+    const last = Math.floor((length - offset) / scale / minor);
+
+    ctx.strokeStyle = '#9ca3af';
+    ctx.fillStyle = '#6b7280';
+    ctx.font = '9px sans-serif';
+    ctx.lineWidth = 1;
+
+    for (let i = first; i <= last; i++) {
+      const value = i * minor;
+      const position = Math.round(offset + value * scale) + 0.5;
+      const isMajor = value % step === 0;
+      const tick = isMajor ? RULER_SIZE : RULER_SIZE / 4;
+
+      ctx.beginPath();
+      if (isHorizontal) {
+        ctx.moveTo(position, RULER_SIZE);
+        ctx.lineTo(position, RULER_SIZE - tick);
+      } else {
+        ctx.moveTo(RULER_SIZE, position);
+        ctx.lineTo(RULER_SIZE - tick, position);
+      }
+      ctx.stroke();
+
+      if (!isMajor) continue;
+      if (isHorizontal) {
+        ctx.textAlign = 'left';
+        ctx.fillText(String(value), position + 3, 9);
+      } else {
+        // Vertical labels read bottom to top, below their tick
+        ctx.save();
+        ctx.translate(9, position + 3);
+        ctx.rotate(-Math.PI / 2);
+        ctx.textAlign = 'right';
+        ctx.fillText(String(value), 0, 0);
+        ctx.restore();
+      }
+    }
+  }, [isHorizontal, length, scale, offset, pixelRatio]);
+
+  const width = isHorizontal ? length : RULER_SIZE;
+  const height = isHorizontal ? RULER_SIZE : length;
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={Math.round(width * pixelRatio)}
+      height={Math.round(height * pixelRatio)}
+      style={{ width, height }}
+      className={`block ${isHorizontal ? 'cursor-row-resize' : 'cursor-col-resize'}`}
+      onMouseDown={onMouseDown}
+      title="Drag to create a guide"
+    />
+  );
+};
+
+export default Ruler;
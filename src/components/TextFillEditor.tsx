@@ -0,0 +1,163 @@
+'use client';
+
+import React, { useRef } from 'react';
+import { GradientStop, TextFill } from '@/types';
+import { createTextFill, getGradientCss } from '@/lib/fills';
+import { blobToDataUrl } from '@/lib/utils';
+import { Plus, Trash2, Upload } from 'lucide-react';
+
+interface TextFillEditorProps {
+  fill: TextFill;
+  onChange: (fill: TextFill) => void;
+}
+
+const FILL_TYPES: { value: TextFill['type']; label: string }[] = [
+  { value: 'solid', label: 'Solid' },
+  { value: 'linear', label: 'Linear' },
+  { value: 'radial', label: 'Radial' },
+  { value: 'image', label: 'Image' },
+];
+
+const TextFillEditor: React.FC<TextFillEditorProps> = ({ fill, onChange }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleStopsChange = (stops: GradientStop[]) => {
+    if (fill.type === 'linear' || fill.type === 'radial') {
+      onChange({ ...fill, stops });
+    }
+  };
+
+  const handleImageSelect = async (file: File | undefined) => {
+    if (!file || !file.type.startsWith('image/') || fill.type !== 'image') return;
+    onChange({ ...fill, image: await blobToDataUrl(file) });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex space-x-2">
+        {FILL_TYPES.map(({ value, label }) => (
+          <button
+            key={value}
+            onClick={() => onChange(createTextFill(value, fill))}
+            className={`flex-1 px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+              fill.type === value
+                ? 'bg-blue-500 text-white'
+                : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {fill.type === 'solid' && (
+        <p className="text-xs text-gray-500">Solid fills use the text color</p>
+      )}
+
+      {(fill.type === 'linear' || fill.type === 'radial') && (
+        <div className="space-y-2">
+          <div
+            className="h-8 rounded border border-gray-300"
+            style={{ background: getGradientCss(fill) }}
+          />
+
+          {fill.stops.map((stop, index) => (
+            <div key={index} className="flex items-center space-x-2">
+              <input
+                type="color"
+                value={stop.color}
+                onChange={(e) => handleStopsChange(
+                  fill.stops.map((s, i) => (i === index ? { ...s, color: e.target.value } : s))
+                )}
+                className="w-10 h-8 border border-gray-300 rounded cursor-pointer"
+                title="Stop color"
+              />
+              <input
+                type="range"
+                min="0"
+                max="100"
+                value={Math.round(stop.offset * 100)}
+                onChange={(e) => handleStopsChange(
+                  fill.stops.map((s, i) => (i === index ? { ...s, offset: parseInt(e.target.value) / 100 } : s))
+                )}
+                className="flex-1"
+                title="Stop position"
+              />
+              <span className="w-10 text-right text-xs text-gray-500">{Math.round(stop.offset * 100)}%</span>
+              <button
+                onClick={() => handleStopsChange(fill.stops.filter((_, i) => i !== index))}
+                disabled={fill.stops.length <= 2}
+                className="p-1 text-gray-400 hover:text-red-500 disabled:opacity-30 disabled:hover:text-gray-400 transition-colors"
+                title="Remove stop"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+
+          <button
+            onClick={() => handleStopsChange([...fill.stops, { offset: 0.5, color: '#FFFFFF' }])}
+            className="flex items-center text-xs font-medium text-blue-600 hover:text-blue-800"
+          >
+            <Plus className="w-3 h-3 mr-1" />
+            Add stop
+          </button>
+
+          {fill.type === 'linear' && (
+            <>
+              <label className="block text-xs text-gray-600">Angle: {fill.angle}°</label>
+              <input
+                type="range"
+                min="0"
+                max="360"
+                value={fill.angle}
+                onChange={(e) => onChange({ ...fill, angle: parseInt(e.target.value) })}
+                className="w-full"
+              />
+            </>
+          )}
+        </div>
+      )}
+
+      {fill.type === 'image' && (
+        <div className="space-y-2">
+          <div className="flex items-center space-x-3">
+            <div
+              className="w-12 h-12 rounded border border-gray-300 canvas-checkerboard bg-repeat"
+              style={fill.image ? { backgroundImage: `url(${fill.image})`, backgroundSize: 'cover' } : undefined}
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center px-3 py-2 text-sm bg-gray-100 hover:bg-gray-200 rounded transition-colors"
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              {fill.image ? 'Replace image' : 'Choose image'}
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*"
+              className="hidden"
+              onChange={(e) => {
+                handleImageSelect(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+          </div>
+          <label className="block text-xs text-gray-600">Tile Size: {Math.round(fill.scale * 100)}%</label>
+          <input
+            type="range"
+            min="0.1"
+            max="3"
+            step="0.05"
+            value={fill.scale}
+            onChange={(e) => onChange({ ...fill, scale: parseFloat(e.target.value) })}
+            className="w-full"
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TextFillEditor;
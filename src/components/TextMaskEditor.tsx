@@ -0,0 +1,101 @@
+'use client';
+
+import React from 'react';
+import { TextMask } from '@/types';
+
+interface TextMaskEditorProps {
+  mask: TextMask | undefined;
+  onChange: (mask: TextMask | undefined) => void;
+}
+
+const MASK_TYPES: { value: TextMask['type'] | 'none'; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'image', label: 'Image' },
+  { value: 'knockout', label: 'Knockout' },
+];
+
+const DEFAULT_KNOCKOUT: TextMask = { type: 'knockout', color: '#FFFFFF', padding: 20, extent: 'box' };
+
+const TextMaskEditor: React.FC<TextMaskEditorProps> = ({ mask, onChange }) => {
+  const handleTypeChange = (type: TextMask['type'] | 'none') => {
+    if (type === 'none') {
+      onChange(undefined);
+    } else if (type !== mask?.type) {
+      onChange(type === 'image' ? { type } : DEFAULT_KNOCKOUT);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex space-x-2">
+        {MASK_TYPES.map(({ value, label }) => (
+          <button
+            key={value}
+            onClick={() => handleTypeChange(value)}
+            className={`flex-1 px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+              (mask?.type ?? 'none') === value
+                ? 'bg-blue-500 text-white'
+                : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {mask?.type === 'image' && (
+        <p className="text-xs text-gray-500">
+          The letters show the photo and background beneath; place the text over another layer&apos;s box to reveal it
+        </p>
+      )}
+
+      {mask?.type === 'knockout' && (
+        <div className="space-y-2">
+          <div className="flex items-center space-x-3">
+            <input
+              type="color"
+              value={mask.color}
+              onChange={(e) => onChange({ ...mask, color: e.target.value })}
+              className="w-12 h-8 border border-gray-300 rounded cursor-pointer"
+              title="Block color"
+            />
+            <div className="flex flex-1 space-x-2">
+              {[
+                { value: 'box', label: 'Text box' },
+                { value: 'canvas', label: 'Whole canvas' },
+              ].map(({ value, label }) => (
+                <button
+                  key={value}
+                  onClick={() => onChange({ ...mask, extent: value as 'box' | 'canvas' })}
+                  className={`flex-1 px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                    mask.extent === value
+                      ? 'bg-blue-500 text-white'
+                      : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+          {mask.extent === 'box' && (
+            <>
+              <label className="block text-xs text-gray-600">Padding: {mask.padding}px</label>
+              <input
+                type="range"
+                min="0"
+                max="200"
+                value={mask.padding}
+                onChange={(e) => onChange({ ...mask, padding: parseInt(e.target.value) })}
+                className="w-full"
+              />
+            </>
+          )}
+          <p className="text-xs text-gray-500">The text is cut out of a solid block, showing what is beneath</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TextMaskEditor;
@@ -0,0 +1,119 @@
+'use client';
+
+import React from 'react';
+import { TextLayer, TextPath } from '@/types';
+import { createTextPath, MIN_ARC_RADIUS, MAX_ARC_RADIUS } from '@/lib/textPath';
+import { PenTool, RotateCcw, RotateCw } from 'lucide-react';
+
+interface TextPathEditorProps {
+  layer: TextLayer;
+  onChange: (path: TextPath | undefined) => void;
+  // Starts drawing a curve on the canvas; omitted when several layers are selected
+  onDrawCurve?: () => void;
+  isDrawingCurve?: boolean;
+}
+
+const PATH_TYPES: { value: TextPath['type'] | 'straight'; label: string }[] = [
+  { value: 'straight', label: 'Straight' },
+  { value: 'arc', label: 'Arc' },
+  { value: 'curve', label: 'Curve' },
+];
+
+const TextPathEditor: React.FC<TextPathEditorProps> = ({ layer, onChange, onDrawCurve, isDrawingCurve = false }) => {
+  const path = layer.path;
+  const activeType = isDrawingCurve ? 'curve' : path?.type ?? 'straight';
+
+  const handleTypeChange = (type: TextPath['type'] | 'straight') => {
+    if (type === 'straight') {
+      onChange(undefined);
+    } else if (type === 'curve') {
+      // Curves only apply once they have been drawn
+      onDrawCurve?.();
+    } else if (path?.type !== type) {
+      onChange(createTextPath(type, layer));
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex space-x-2">
+        {PATH_TYPES.map(({ value, label }) => (
+          <button
+            key={value}
+            onClick={() => handleTypeChange(value)}
+            disabled={value === 'curve' && !onDrawCurve}
+            className={`flex-1 px-3 py-1 rounded-md text-sm font-medium transition-colors disabled:opacity-50 ${
+              activeType === value
+                ? 'bg-blue-500 text-white'
+                : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {path?.type === 'arc' && !isDrawingCurve && (
+        <div className="space-y-2">
+          <label className="block text-xs text-gray-600">Radius: {path.radius}px</label>
+          <input
+            type="range"
+            min={MIN_ARC_RADIUS}
+            max={MAX_ARC_RADIUS}
+            value={path.radius}
+            onChange={(e) => onChange({ ...path, radius: parseInt(e.target.value) })}
+            className="w-full"
+          />
+          <label className="block text-xs text-gray-600">Start Angle: {path.startAngle}°</label>
+          <input
+            type="range"
+            min="0"
+            max="359"
+            value={path.startAngle}
+            onChange={(e) => onChange({ ...path, startAngle: parseInt(e.target.value) })}
+            className="w-full"
+          />
+          <div className="flex space-x-2">
+            {[
+              { clockwise: true, icon: RotateCw, label: 'Clockwise' },
+              { clockwise: false, icon: RotateCcw, label: 'Counter-clockwise' },
+            ].map(({ clockwise, icon: Icon, label }) => (
+              <button
+                key={label}
+                onClick={() => onChange({ ...path, clockwise })}
+                className={`flex-1 flex items-center justify-center px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                  path.clockwise === clockwise
+                    ? 'bg-blue-500 text-white'
+                    : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                }`}
+                title={clockwise ? 'Text runs clockwise around the top' : 'Text reads upright along the bottom'}
+              >
+                <Icon className="w-4 h-4 mr-1" />
+                {label}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500">The arc is centred on the layer&apos;s position</p>
+        </div>
+      )}
+
+      {isDrawingCurve && (
+        <p className="text-xs text-blue-600">
+          Click on the canvas to add points, then double-click or press Enter to finish
+        </p>
+      )}
+
+      {path?.type === 'curve' && !isDrawingCurve && onDrawCurve && (
+        <button
+          onClick={onDrawCurve}
+          className="flex items-center px-3 py-2 text-sm bg-gray-100 hover:bg-gray-200 rounded transition-colors"
+        >
+          <PenTool className="w-4 h-4 mr-2" />
+          Redraw curve
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default TextPathEditor;
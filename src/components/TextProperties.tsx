@@ -1,8 +1,13 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { TextLayer, FontOption } from '@/types';
-import { fetchGoogleFonts, loadFont, getSystemFonts } from '@/lib/fonts';
+import { TextLayer, TextStyle, TextTransform, StrokeJoin, BlendMode, FontOption } from '@/types';
+import { fetchGoogleFonts, loadFont, getSystemFonts, getFontWeights, normalizeFontWeight, FONT_WEIGHT_NAMES } from '@/lib/fonts';
+import { DEFAULT_LINE_HEIGHT, MIN_FONT_SIZE, MAX_FONT_SIZE, hasFixedBox } from '@/lib/text';
+import { TextRange, applySpanStyle, getLayerSpans, getRangeStyles } from '@/lib/spans';
+import TextFillEditor from '@/components/TextFillEditor';
+import TextPathEditor from '@/components/TextPathEditor';
+import TextMaskEditor from '@/components/TextMaskEditor';
 import { 
   Type, 
   Eye, 
@@ -11,20 +16,56 @@ import {
   AlignCenter, 
   AlignRight,
   RotateCcw,
-  Trash2
+  Trash2,
+  Italic,
+  Underline,
+  Strikethrough
 } from 'lucide-react';
 
 interface TextPropertiesProps {
-  selectedLayer: TextLayer | null;
-  onUpdateLayer: (updates: Partial<TextLayer>) => void;
-  onDeleteLayer: () => void;
+  selectedLayers: TextLayer[];
+  // Applied to every selected layer
+  onUpdateLayers: (updates: Partial<TextLayer>) => void;
+  onDeleteLayers: () => void;
+  // Characters selected in a layer's text; style controls apply to them
+  textSelection?: TextRange | null;
+  onTextSelectionChange?: (range: TextRange | null) => void;
+  // Starts drawing a text path for the selected layer on the canvas
+  onDrawPath?: () => void;
+  isDrawingPath?: boolean;
 }
 
+const BLEND_MODES: { value: BlendMode; label: string }[] = [
+  { value: 'normal', label: 'Normal' },
+  { value: 'multiply', label: 'Multiply' },
+  { value: 'screen', label: 'Screen' },
+  { value: 'overlay', label: 'Overlay' },
+  { value: 'darken', label: 'Darken' },
+  { value: 'lighten', label: 'Lighten' },
+  { value: 'color-dodge', label: 'Color Dodge' },
+  { value: 'color-burn', label: 'Color Burn' },
+  { value: 'hard-light', label: 'Hard Light' },
+  { value: 'soft-light', label: 'Soft Light' },
+  { value: 'difference', label: 'Difference' },
+  { value: 'exclusion', label: 'Exclusion' },
+  { value: 'hue', label: 'Hue' },
+  { value: 'saturation', label: 'Saturation' },
+  { value: 'color', label: 'Color' },
+  { value: 'luminosity', label: 'Luminosity' },
+];
+
 const TextProperties: React.FC<TextPropertiesProps> = ({ 
-  selectedLayer, 
-  onUpdateLayer, 
-  onDeleteLayer 
+  selectedLayers, 
+  onUpdateLayers, 
+  onDeleteLayers,
+  textSelection = null,
+  onTextSelectionChange,
+  onDrawPath,
+  isDrawingPath = false
 }) => {
+  // Controls show the first selected layer; differing values are shown as mixed
+  const selectedLayer = selectedLayers.length > 0 ? selectedLayers[0] : null;
+  const isMultiple = selectedLayers.length > 1;
   const [fonts, setFonts] = useState<FontOption[]>([]);
   const [isLoadingFonts, setIsLoadingFonts] = useState(true);
   const [fontError, setFontError] = useState<string | null>(null);
@@ -50,95 +91,123 @@ const TextProperties: React.FC<TextPropertiesProps> = ({
     loadFonts();
   }, []);
 
+  // True when the selected layers disagree on a property
+  const isMixed = (key: keyof TextLayer) =>
+    selectedLayers.some(layer => layer[key] !== selectedLayers[0][key]);
+
+  const mixedPlaceholder = (key: keyof TextLayer) => (isMixed(key) ? 'Mixed' : undefined);
+
+  // Part of a single layer's text is selected; selecting all of it styles the whole layer
+  const textRange = selectedLayer && !isMultiple && textSelection &&
+    textSelection.layerId === selectedLayer.id &&
+    textSelection.start < textSelection.end &&
+    textSelection.end <= selectedLayer.text.length &&
+    !(textSelection.start === 0 && textSelection.end === selectedLayer.text.length)
+    ? textSelection
+    : null;
+
+  // Styles of the runs the style controls show: the selected characters, or
+  // every run of a single layer
+  const rangeStyles = selectedLayer && !isMultiple
+    ? getRangeStyles(selectedLayer, textRange?.start ?? 0, textRange?.end ?? selectedLayer.text.length)
+    : null;
+
+  const isStyleMixed = (key: keyof TextStyle) =>
+    rangeStyles ? rangeStyles.some(style => style[key] !== rangeStyles[0][key]) : isMixed(key);
+
+  const getStyleValue = <K extends keyof TextStyle>(key: K) =>
+    rangeStyles ? rangeStyles[0][key] : selectedLayer?.[key];
+
+  // Styles the selected characters, or whole layers when no text is selected
+  const handleStyleChange = (style: TextStyle) => {
+    if (textRange && selectedLayer) {
+      onUpdateLayers({ spans: applySpanStyle(getLayerSpans(selectedLayer), textRange.start, textRange.end, style) });
+    } else {
+      onUpdateLayers(style);
+    }
+  };
+
+  const isItalic = !isStyleMixed('fontStyle') && getStyleValue('fontStyle') === 'italic';
+  const currentWeight = normalizeFontWeight(getStyleValue('fontWeight'));
+  // Weights the shown font provides, keeping the current one listed
+  const weightOptions = getFontWeights(fonts.find(font => font.family === getStyleValue('fontFamily')));
+  if (!weightOptions.includes(currentWeight)) {
+    weightOptions.push(currentWeight);
+    weightOptions.sort((a, b) => Number(a) - Number(b));
+  }
+
   const handleFontChange = async (fontFamily: string) => {
+    // Keep the weight when the new font has it, otherwise use its closest weight
+    const weights = getFontWeights(fonts.find(font => font.family === fontFamily));
+    const fontWeight = weights.includes(currentWeight) || weights.length === 0
+      ? currentWeight
+      : weights.reduce((best, weight) =>
+        Math.abs(Number(weight) - Number(currentWeight)) < Math.abs(Number(best) - Number(currentWeight)) ? weight : best
+      );
+    const style: TextStyle = fontWeight === currentWeight ? { fontFamily } : { fontFamily, fontWeight };
+
     try {
-      await loadFont(fontFamily);
-      onUpdateLayer({ fontFamily });
-      
-      // Recalculate dimensions when font family changes
-      const tempCanvas = document.createElement('canvas');
-      const tempCtx = tempCanvas.getContext('2d');
-      
-      if (tempCtx && selectedLayer) {
-        tempCtx.font = `${selectedLayer.fontWeight === 'bold' ? 'bold' : 'normal'} ${selectedLayer.fontSize}px ${fontFamily}`;
-        const textMetrics = tempCtx.measureText(selectedLayer.text);
-        
-        onUpdateLayer({ 
-          fontFamily,
-          width: textMetrics.width,
-          height: selectedLayer.fontSize
-        });
-      }
+      await loadFont(fontFamily, fontWeight, isItalic);
+      handleStyleChange(style);
     } catch (error) {
       console.warn('Failed to load font:', fontFamily, error);
       // Still update the font family even if loading fails
-      onUpdateLayer({ fontFamily });
+      handleStyleChange(style);
     }
   };
 
-  const handleFontWeightChange = (weight: string) => {
-    onUpdateLayer({ fontWeight: weight });
-    
-    // Recalculate dimensions when font weight changes
-    const tempCanvas = document.createElement('canvas');
-    const tempCtx = tempCanvas.getContext('2d');
-    
-    if (tempCtx && selectedLayer) {
-      tempCtx.font = `${weight === 'bold' ? 'bold' : 'normal'} ${selectedLayer.fontSize}px ${selectedLayer.fontFamily}`;
-      const textMetrics = tempCtx.measureText(selectedLayer.text);
-      
-      onUpdateLayer({ 
-        fontWeight: weight,
-        width: textMetrics.width,
-        height: selectedLayer.fontSize
-      });
+  const handleFontWeightChange = async (fontWeight: string) => {
+    const fontFamily = getStyleValue('fontFamily');
+    if (fontFamily) {
+      await loadFont(fontFamily, fontWeight, isItalic);
     }
+    handleStyleChange({ fontWeight });
+  };
+
+  const handleItalicToggle = async () => {
+    const fontFamily = getStyleValue('fontFamily');
+    if (!isItalic && fontFamily) {
+      await loadFont(fontFamily, currentWeight, true);
+    }
+    handleStyleChange({ fontStyle: isItalic ? 'normal' : 'italic' });
+  };
+
+  const handleDecorationToggle = (decoration: 'underline' | 'strikethrough') => {
+    const isOn = !isStyleMixed(decoration) && !!getStyleValue(decoration);
+    handleStyleChange({ [decoration]: !isOn });
   };
 
   const handleColorChange = (color: string) => {
-    onUpdateLayer({ color });
+    handleStyleChange({ color });
   };
 
 
   const handleFontSizeChange = (fontSize: number) => {
-    const newFontSize = Math.max(8, Math.min(200, fontSize));
-    onUpdateLayer({ fontSize: newFontSize });
-    
-    // Recalculate dimensions when font size changes
-    const tempCanvas = document.createElement('canvas');
-    const tempCtx = tempCanvas.getContext('2d');
-    
-    if (tempCtx && selectedLayer) {
-      tempCtx.font = `${selectedLayer.fontWeight === 'bold' ? 'bold' : 'normal'} ${newFontSize}px ${selectedLayer.fontFamily}`;
-      const textMetrics = tempCtx.measureText(selectedLayer.text);
-      
-      onUpdateLayer({ 
-        fontSize: newFontSize,
-        width: textMetrics.width,
-        height: newFontSize
-      });
-    }
+    const newFontSize = Math.max(MIN_FONT_SIZE, Math.min(MAX_FONT_SIZE, fontSize));
+    handleStyleChange({ fontSize: newFontSize });
   };
 
+  const handleTextChange = (text: string) => {
+    onUpdateLayers({ text });
+  };
 
+  const handleWrapWidthChange = (wrapWidth: number) => {
+    onUpdateLayers({ wrapWidth: Math.max(0, wrapWidth || 0) });
+  };
 
-  const handleTextChange = (text: string) => {
-    onUpdateLayer({ text });
-    
-    // Recalculate dimensions when text changes
-    const tempCanvas = document.createElement('canvas');
-    const tempCtx = tempCanvas.getContext('2d');
-    
-    if (tempCtx && selectedLayer) {
-      tempCtx.font = `${selectedLayer.fontWeight === 'bold' ? 'bold' : 'normal'} ${selectedLayer.fontSize}px ${selectedLayer.fontFamily}`;
-      const textMetrics = tempCtx.measureText(text);
-      
-      onUpdateLayer({ 
-        text,
-        width: textMetrics.width,
-        height: selectedLayer.fontSize
-      });
-    }
+  const handleLineHeightChange = (lineHeight: number) => {
+    onUpdateLayers({ lineHeight });
+  };
+
+  // The box size of auto-fit layers; the text wraps to the width
+  const handleBoxSizeChange = (key: 'width' | 'height', value: number) => {
+    if (!value || value < 1) return;
+    onUpdateLayers({ [key]: Math.round(value) });
+  };
+
+  const handleFitLimitChange = (key: 'minFontSize' | 'maxFontSize', value: number) => {
+    if (!value) return;
+    onUpdateLayers({ [key]: Math.max(MIN_FONT_SIZE, Math.min(MAX_FONT_SIZE, value)) });
   };
 
   if (!selectedLayer) {
@@ -153,22 +222,31 @@ const TextProperties: React.FC<TextPropertiesProps> = ({
     );
   }
 
+  const isVisible = selectedLayers.every(layer => layer.isVisible);
+  // Auto-fit picks the font size and wrap width
+  const isFitted = selectedLayers.some(hasFixedBox);
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
-        <h3 className="text-lg font-semibold text-gray-900">Text Properties</h3>
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Text Properties</h3>
+          {isMultiple && (
+            <p className="text-xs text-gray-500 mt-1">{selectedLayers.length} layers selected</p>
+          )}
+        </div>
         <div className="flex items-center space-x-2">
           {/* Hide/Show Toggle */}
           <button
-            onClick={() => onUpdateLayer({ isVisible: !selectedLayer.isVisible })}
+            onClick={() => onUpdateLayers({ isVisible: !isVisible })}
             className={`p-2 rounded-lg transition-colors ${
-              selectedLayer.isVisible 
+              isVisible 
                 ? 'text-gray-600 hover:text-gray-800 hover:bg-gray-100' 
                 : 'text-red-500 hover:text-red-700 hover:bg-red-50'
             }`}
-            title={selectedLayer.isVisible ? 'Hide layer' : 'Show layer'}
+            title={isVisible ? 'Hide layer' : 'Show layer'}
           >
-            {selectedLayer.isVisible ? (
+            {isVisible ? (
               <Eye className="w-4 h-4" />
             ) : (
               <EyeOff className="w-4 h-4" />
@@ -177,9 +255,9 @@ const TextProperties: React.FC<TextPropertiesProps> = ({
           
           {/* Delete Button */}
           <button
-            onClick={onDeleteLayer}
+            onClick={onDeleteLayers}
             className="p-2 text-red-500 hover:text-red-700 hover:bg-red-50 rounded-lg transition-colors"
-            title="Delete layer"
+            title={isMultiple ? 'Delete layers' : 'Delete layer'}
           >
             <Trash2 className="w-4 h-4" />
           </button>
@@ -188,28 +266,28 @@ const TextProperties: React.FC<TextPropertiesProps> = ({
 
       {/* Visibility Status */}
       <div className={`p-3 rounded-lg border ${
-        selectedLayer.isVisible 
+        isVisible 
           ? 'bg-green-50 border-green-200' 
           : 'bg-red-50 border-red-200'
       }`}>
         <div className="flex items-center space-x-2">
-          {selectedLayer.isVisible ? (
+          {isVisible ? (
             <Eye className="w-4 h-4 text-green-600" />
           ) : (
             <EyeOff className="w-4 h-4 text-red-600" />
           )}
           <span className={`text-sm font-medium ${
-            selectedLayer.isVisible ? 'text-green-800' : 'text-red-800'
+            isVisible ? 'text-green-800' : 'text-red-800'
           }`}>
-            {selectedLayer.isVisible ? 'Layer is visible' : 'Layer is hidden'}
+            {isVisible ? 'Layer is visible' : isMultiple ? 'Some layers are hidden' : 'Layer is hidden'}
           </span>
         </div>
         <p className={`text-xs mt-1 ${
-          selectedLayer.isVisible ? 'text-green-600' : 'text-red-600'
+          isVisible ? 'text-green-600' : 'text-red-600'
         }`}>
-          {selectedLayer.isVisible 
-            ? 'This text layer is currently visible on the canvas.' 
-            : 'This text layer is hidden and will not appear in exports.'
+          {isVisible 
+            ? `${isMultiple ? 'These text layers are' : 'This text layer is'} currently visible on the canvas.`
+            : `${isMultiple ? 'Some selected layers are' : 'This text layer is'} hidden and will not appear in exports.`
           }
         </p>
       </div>
@@ -218,13 +296,24 @@ const TextProperties: React.FC<TextPropertiesProps> = ({
       <div className="space-y-2">
         <label className="text-sm font-medium text-gray-900">Text Content</label>
         <textarea
-          value={selectedLayer.text}
+          value={isMixed('text') ? '' : selectedLayer.text}
           onChange={(e) => handleTextChange(e.target.value)}
+          onSelect={(e) => {
+            if (isMultiple) return;
+            onTextSelectionChange?.({
+              layerId: selectedLayer.id,
+              start: e.currentTarget.selectionStart,
+              end: e.currentTarget.selectionEnd,
+            });
+          }}
           className="w-full p-3 border border-gray-300 rounded-lg resize-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black bg-white"
           rows={3}
-          placeholder="Enter your text here..."
+          placeholder={isMixed('text') ? 'Mixed: typing replaces the text of every selected layer' : 'Enter your text here...'}
           style={{ color: '#000000' }}
         />
+        {!isMultiple && (
+          <p className="text-xs text-gray-500">Select part of the text to style it on its own</p>
+        )}
       </div>
 
       {/* Rotation - Moved to top for visibility */}
@@ -236,7 +325,7 @@ const TextProperties: React.FC<TextPropertiesProps> = ({
           <button
             onClick={() => {
               console.log('Setting rotation to 0');
-              onUpdateLayer({ rotation: 0 });
+              onUpdateLayers({ rotation: 0 });
             }}
             className="px-3 py-1 text-xs bg-gray-100 hover:bg-gray-200 rounded transition-colors"
             title="Reset rotation (0°)"
@@ -246,7 +335,7 @@ const TextProperties: React.FC<TextPropertiesProps> = ({
           <button
             onClick={() => {
               console.log('Setting rotation to 45');
-              onUpdateLayer({ rotation: 45 });
+              onUpdateLayers({ rotation: 45 });
             }}
             className="px-3 py-1 text-xs bg-gray-100 hover:bg-gray-200 rounded transition-colors"
             title="45° rotation"
@@ -256,7 +345,7 @@ const TextProperties: React.FC<TextPropertiesProps> = ({
           <button
             onClick={() => {
               console.log('Setting rotation to 90');
-              onUpdateLayer({ rotation: 90 });
+              onUpdateLayers({ rotation: 90 });
             }}
             className="px-3 py-1 text-xs bg-gray-100 hover:bg-gray-200 rounded transition-colors"
             title="90° rotation"
@@ -266,7 +355,7 @@ const TextProperties: React.FC<TextPropertiesProps> = ({
           <button
             onClick={() => {
               console.log('Setting rotation to 180');
-              onUpdateLayer({ rotation: 180 });
+              onUpdateLayers({ rotation: 180 });
             }}
             className="px-3 py-1 text-xs bg-gray-100 hover:bg-gray-200 rounded transition-colors"
             title="180° rotation"
@@ -276,7 +365,7 @@ const TextProperties: React.FC<TextPropertiesProps> = ({
           <button
             onClick={() => {
               console.log('Setting rotation to 270');
-              onUpdateLayer({ rotation: 270 });
+              onUpdateLayers({ rotation: 270 });
             }}
             className="px-3 py-1 text-xs bg-gray-100 hover:bg-gray-200 rounded transition-colors"
             title="270° rotation"
@@ -294,7 +383,7 @@ const TextProperties: React.FC<TextPropertiesProps> = ({
             onChange={(e) => {
               const value = parseInt(e.target.value);
               console.log('Rotation slider changed to:', value);
-              onUpdateLayer({ rotation: value });
+              onUpdateLayers({ rotation: value });
             }}
             className="flex-1"
           />
@@ -302,11 +391,12 @@ const TextProperties: React.FC<TextPropertiesProps> = ({
             type="number"
             min="0"
             max="360"
-            value={selectedLayer.rotation}
+            value={isMixed('rotation') ? '' : selectedLayer.rotation}
+            placeholder={mixedPlaceholder('rotation')}
             onChange={(e) => {
               const value = parseInt(e.target.value);
               console.log('Rotation input changed to:', value);
-              onUpdateLayer({ rotation: value });
+              onUpdateLayers({ rotation: value });
             }}
             className="w-16 p-2 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black bg-white"
             style={{ color: '#000000' }}
@@ -314,7 +404,7 @@ const TextProperties: React.FC<TextPropertiesProps> = ({
           <button
             onClick={() => {
               console.log('Reset rotation clicked');
-              onUpdateLayer({ rotation: 0 });
+              onUpdateLayers({ rotation: 0 });
             }}
             className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
             title="Reset rotation"
@@ -325,14 +415,14 @@ const TextProperties: React.FC<TextPropertiesProps> = ({
         
         {/* Rotation preview */}
         <div className="text-xs text-gray-500 text-center">
-          Current rotation: {selectedLayer.rotation}°
+          Current rotation: {isMixed('rotation') ? 'Mixed' : `${selectedLayer.rotation}°`}
         </div>
       </div>
 
       {/* Opacity - Moved to top for visibility */}
       <div className="space-y-2">
         <label className="text-sm font-medium text-gray-900">
-          Opacity: {Math.round(selectedLayer.opacity * 100)}%
+          Opacity: {isMixed('opacity') ? 'Mixed' : `${Math.round(selectedLayer.opacity * 100)}%`}
         </label>
         <div className="flex items-center space-x-3">
           <input
@@ -344,7 +434,7 @@ const TextProperties: React.FC<TextPropertiesProps> = ({
             onChange={(e) => {
               const value = parseFloat(e.target.value);
               console.log('Opacity slider changed to:', value);
-              onUpdateLayer({ opacity: value });
+              onUpdateLayers({ opacity: value });
             }}
             className="flex-1"
           />
@@ -353,11 +443,12 @@ const TextProperties: React.FC<TextPropertiesProps> = ({
             min="0"
             max="1"
             step="0.01"
-            value={selectedLayer.opacity}
+            value={isMixed('opacity') ? '' : selectedLayer.opacity}
+            placeholder={mixedPlaceholder('opacity')}
             onChange={(e) => {
               const value = parseFloat(e.target.value);
               console.log('Opacity input changed to:', value);
-              onUpdateLayer({ opacity: value });
+              onUpdateLayers({ opacity: value });
             }}
             className="w-16 p-2 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black bg-white"
             style={{ color: '#000000' }}
@@ -365,6 +456,38 @@ const TextProperties: React.FC<TextPropertiesProps> = ({
         </div>
       </div>
 
+      {/* Blend Mode */}
+      <div className="space-y-2">
+        <label className="text-sm font-medium text-gray-900">Blend Mode</label>
+        <select
+          value={isMixed('blendMode') ? '' : selectedLayer.blendMode || 'normal'}
+          onChange={(e) => onUpdateLayers({ blendMode: e.target.value as BlendMode })}
+          className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black bg-white"
+          style={{ color: '#000000' }}
+        >
+          {isMixed('blendMode') && <option value="" disabled>Mixed</option>}
+          {BLEND_MODES.map(({ value, label }) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      </div>
+
+      {/* Font, size, weight, italic, decorations and color below apply to the selected text */}
+      {textRange && (
+        <div className="flex items-center justify-between p-3 bg-blue-50 border border-blue-200 rounded-lg">
+          <span className="text-sm text-blue-800 truncate">
+            Styling &ldquo;{selectedLayer.text.slice(textRange.start, textRange.end)}&rdquo;
+          </span>
+          <button
+            onClick={() => onTextSelectionChange?.(null)}
+            className="ml-2 shrink-0 text-xs font-medium text-blue-700 hover:text-blue-900"
+            title="Style the whole layer instead"
+          >
+            Whole layer
+          </button>
+        </div>
+      )}
+
       {/* Font Family */}
       <div className="space-y-2">
         <label className="text-sm font-medium text-gray-900">Font Family</label>
@@ -372,11 +495,14 @@ const TextProperties: React.FC<TextPropertiesProps> = ({
           <div className="skeleton h-10 rounded-lg"></div>
         ) : (
           <select
-            value={selectedLayer.fontFamily}
+            value={isStyleMixed('fontFamily') ? '' : getStyleValue('fontFamily')}
             onChange={(e) => handleFontChange(e.target.value)}
             className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black bg-white"
             style={{ color: '#000000' }}
           >
+            {isStyleMixed('fontFamily') && (
+              <option value="" disabled style={{ color: '#000000' }}>Mixed</option>
+            )}
             {fonts.map((font) => (
               <option key={font.family} value={font.family} style={{ color: '#000000' }}>
                 {font.family}
@@ -395,10 +521,13 @@ const TextProperties: React.FC<TextPropertiesProps> = ({
           <label className="text-sm font-medium text-gray-900">Font Size</label>
           <input
             type="number"
-            min="8"
-            max="200"
-            value={selectedLayer.fontSize}
+            min={MIN_FONT_SIZE}
+            max={MAX_FONT_SIZE}
+            value={isStyleMixed('fontSize') ? '' : getStyleValue('fontSize')}
+            placeholder={isStyleMixed('fontSize') ? 'Mixed' : undefined}
             onChange={(e) => handleFontSizeChange(parseInt(e.target.value))}
+            disabled={isFitted}
+            title={isFitted ? 'Set by auto-fit' : undefined}
             className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black bg-white"
             style={{ color: '#000000' }}
           />
@@ -406,17 +535,72 @@ const TextProperties: React.FC<TextPropertiesProps> = ({
         <div className="space-y-2">
           <label className="text-sm font-medium text-gray-900">Font Weight</label>
           <select
-            value={selectedLayer.fontWeight}
+            value={isStyleMixed('fontWeight') ? '' : currentWeight}
             onChange={(e) => handleFontWeightChange(e.target.value)}
             className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black bg-white"
             style={{ color: '#000000' }}
           >
-            <option value="normal" style={{ color: '#000000' }}>Normal</option>
-            <option value="bold" style={{ color: '#000000' }}>Bold</option>
+            {isStyleMixed('fontWeight') && (
+              <option value="" disabled style={{ color: '#000000' }}>Mixed</option>
+            )}
+            {weightOptions.map(weight => (
+              <option key={weight} value={weight} style={{ color: '#000000' }}>
+                {FONT_WEIGHT_NAMES[weight] ? `${FONT_WEIGHT_NAMES[weight]} (${weight})` : weight}
+              </option>
+            ))}
           </select>
         </div>
       </div>
 
+      {/* Font Style, Decorations and Case */}
+      <div className="flex space-x-2">
+        {[
+          { key: 'italic', icon: Italic, label: 'Italic', isOn: isItalic, onClick: handleItalicToggle },
+          {
+            key: 'underline',
+            icon: Underline,
+            label: 'Underline',
+            isOn: !isStyleMixed('underline') && !!getStyleValue('underline'),
+            onClick: () => handleDecorationToggle('underline'),
+          },
+          {
+            key: 'strikethrough',
+            icon: Strikethrough,
+            label: 'Strikethrough',
+            isOn: !isStyleMixed('strikethrough') && !!getStyleValue('strikethrough'),
+            onClick: () => handleDecorationToggle('strikethrough'),
+          },
+        ].map(({ key, icon: Icon, label, isOn, onClick }) => (
+          <button
+            key={key}
+            onClick={onClick}
+            className={`p-3 border rounded-lg transition-all ${
+              isOn
+                ? 'border-blue-500 bg-blue-50 text-blue-700'
+                : 'border-gray-300 hover:border-gray-400 hover:bg-gray-50'
+            }`}
+            title={label}
+          >
+            <Icon className="w-4 h-4" />
+          </button>
+        ))}
+        <select
+          value={isMixed('textTransform') ? '' : selectedLayer.textTransform || 'none'}
+          onChange={(e) => onUpdateLayers({ textTransform: e.target.value as TextTransform })}
+          className="min-w-0 flex-1 p-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black bg-white"
+          style={{ color: '#000000' }}
+          title="Text case"
+        >
+          {isMixed('textTransform') && (
+            <option value="" disabled style={{ color: '#000000' }}>Mixed</option>
+          )}
+          <option value="none" style={{ color: '#000000' }}>As typed</option>
+          <option value="uppercase" style={{ color: '#000000' }}>UPPERCASE</option>
+          <option value="lowercase" style={{ color: '#000000' }}>lowercase</option>
+          <option value="capitalize" style={{ color: '#000000' }}>Capitalize</option>
+        </select>
+      </div>
+
       {/* Text Color */}
       <div className="space-y-3">
         <label className="text-sm font-medium text-gray-900">Text Color</label>
@@ -425,21 +609,21 @@ const TextProperties: React.FC<TextPropertiesProps> = ({
         <div className="flex items-center space-x-3 p-3 bg-gray-50 rounded-lg">
           <div 
             className="w-8 h-8 rounded-lg border-2 border-gray-300"
-            style={{ backgroundColor: selectedLayer.color }}
+            style={{ backgroundColor: getStyleValue('color') }}
           />
           <input
             type="color"
-            value={selectedLayer.color}
+            value={getStyleValue('color')}
             onChange={(e) => handleColorChange(e.target.value)}
             className="w-12 h-8 border border-gray-300 rounded cursor-pointer"
             title="Choose color"
           />
           <input
             type="text"
-            value={selectedLayer.color}
+            value={isStyleMixed('color') ? '' : getStyleValue('color')}
             onChange={(e) => handleColorChange(e.target.value)}
             className="flex-1 p-2 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black bg-white"
-            placeholder="#000000"
+            placeholder={isStyleMixed('color') ? 'Mixed' : '#000000'}
             pattern="^#[0-9A-Fa-f]{6}$"
             title="Enter hex color code"
             style={{ color: '#000000' }}
@@ -459,7 +643,7 @@ const TextProperties: React.FC<TextPropertiesProps> = ({
                 onClick={() => handleColorChange(color)}
                 className={`
                   w-8 h-8 rounded-md border-2 transition-all hover:scale-110
-                  ${selectedLayer.color === color 
+                  ${!isStyleMixed('color') && getStyleValue('color') === color 
                     ? 'border-blue-500 scale-110 shadow-glow' 
                     : 'border-gray-300 hover:border-gray-400'
                   }
@@ -515,6 +699,68 @@ const TextProperties: React.FC<TextPropertiesProps> = ({
         </div>
       </div>
 
+      {/* Fill */}
+      <div className="space-y-2">
+        <label className="text-sm font-medium text-gray-900">Fill</label>
+        <TextFillEditor
+          fill={selectedLayer.fill || { type: 'solid' }}
+          onChange={(fill) => onUpdateLayers({ fill })}
+        />
+      </div>
+
+      {/* Outline */}
+      <div className="space-y-3">
+        <label className="text-sm font-medium text-gray-900">Outline</label>
+        <div className="flex items-center space-x-3">
+          <input
+            type="color"
+            value={selectedLayer.strokeColor || '#000000'}
+            onChange={(e) => onUpdateLayers({ strokeColor: e.target.value })}
+            className="w-12 h-8 border border-gray-300 rounded cursor-pointer"
+            title="Outline color"
+          />
+          <div className="flex-1 space-y-1">
+            <label className="text-xs text-gray-600">
+              Width: {isMixed('strokeWidth') ? 'Mixed' : `${selectedLayer.strokeWidth || 0}px`}
+            </label>
+            <input
+              type="range"
+              min="0"
+              max="20"
+              step="0.5"
+              value={selectedLayer.strokeWidth || 0}
+              onChange={(e) => onUpdateLayers({ strokeWidth: parseFloat(e.target.value) })}
+              className="w-full"
+            />
+          </div>
+        </div>
+        <div className="flex space-x-2">
+          {(['miter', 'round', 'bevel'] as StrokeJoin[]).map(join => (
+            <button
+              key={join}
+              onClick={() => onUpdateLayers({ strokeJoin: join })}
+              className={`flex-1 px-3 py-1 rounded-md text-sm font-medium capitalize transition-colors ${
+                !isMixed('strokeJoin') && (selectedLayer.strokeJoin || 'round') === join
+                  ? 'bg-blue-500 text-white'
+                  : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+              }`}
+              title={`${join} corners`}
+            >
+              {join}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Mask */}
+      <div className="space-y-2">
+        <label className="text-sm font-medium text-gray-900">Mask</label>
+        <TextMaskEditor
+          mask={selectedLayer.mask}
+          onChange={(mask) => onUpdateLayers({ mask })}
+        />
+      </div>
+
       {/* Text Alignment */}
       <div className="space-y-2">
         <label className="text-sm font-medium text-gray-900">Text Alignment</label>
@@ -526,10 +772,10 @@ const TextProperties: React.FC<TextPropertiesProps> = ({
           ].map(({ value, icon: Icon, label }) => (
             <button
               key={value}
-              onClick={() => onUpdateLayer({ textAlign: value as 'left' | 'center' | 'right' })}
+              onClick={() => onUpdateLayers({ textAlign: value as 'left' | 'center' | 'right' })}
               className={`
                 flex-1 flex items-center justify-center p-3 border rounded-lg transition-all
-                ${selectedLayer.textAlign === value
+                ${!isMixed('textAlign') && selectedLayer.textAlign === value
                   ? 'border-blue-500 bg-blue-50 text-blue-700'
                   : 'border-gray-300 hover:border-gray-400 hover:bg-gray-50'
                 }
@@ -542,6 +788,234 @@ const TextProperties: React.FC<TextPropertiesProps> = ({
         </div>
       </div>
 
+      {/* Text on a path */}
+      <div className="space-y-2">
+        <label className="text-sm font-medium text-gray-900">Path</label>
+        <TextPathEditor
+          layer={selectedLayer}
+          onChange={(path) => onUpdateLayers({ path })}
+          onDrawCurve={isMultiple ? undefined : onDrawPath}
+          isDrawingCurve={isDrawingPath}
+        />
+      </div>
+
+      {/* Wrapping and Line Height */}
+      <div className="space-y-3">
+        <label className="text-sm font-medium text-gray-900">Paragraph</label>
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label className="text-xs text-gray-600">Wrap Width (0 = off)</label>
+            <input
+              type="number"
+              min="0"
+              value={isMixed('wrapWidth') ? '' : Math.round(selectedLayer.wrapWidth || 0)}
+              placeholder={mixedPlaceholder('wrapWidth')}
+              onChange={(e) => handleWrapWidthChange(parseInt(e.target.value))}
+              disabled={isFitted}
+              title={isFitted ? 'Set by auto-fit' : undefined}
+              className="w-full p-2 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black bg-white"
+              style={{ color: '#000000' }}
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-xs text-gray-600">
+              Line Height: {isMixed('lineHeight') ? 'Mixed' : (selectedLayer.lineHeight || DEFAULT_LINE_HEIGHT).toFixed(1)}
+            </label>
+            <input
+              type="range"
+              min="0.8"
+              max="3"
+              step="0.1"
+              value={selectedLayer.lineHeight || DEFAULT_LINE_HEIGHT}
+              onChange={(e) => handleLineHeightChange(parseFloat(e.target.value))}
+              className="w-full"
+            />
+          </div>
+        </div>
+        <div className="space-y-2">
+          <label className="text-xs text-gray-600">
+            Letter Spacing: {isMixed('letterSpacing') ? 'Mixed' : `${selectedLayer.letterSpacing || 0}px`}
+          </label>
+          <input
+            type="range"
+            min="-10"
+            max="50"
+            step="0.5"
+            value={selectedLayer.letterSpacing || 0}
+            onChange={(e) => onUpdateLayers({ letterSpacing: parseFloat(e.target.value) })}
+            className="w-full"
+          />
+        </div>
+        <p className="text-xs text-gray-500">Press Enter in the text box for a new line</p>
+      </div>
+
+      {/* Auto-fit */}
+      <div className="space-y-3">
+        <div className="flex items-center space-x-3">
+          <input
+            type="checkbox"
+            checked={selectedLayers.every(layer => layer.autoFit)}
+            onChange={(e) => onUpdateLayers({ autoFit: e.target.checked })}
+            disabled={selectedLayers.some(layer => layer.path)}
+            className="w-4 h-4"
+            title="Toggle auto-fit"
+          />
+          <label className="text-sm font-medium text-gray-900">Auto-fit to Box</label>
+        </div>
+        {selectedLayers.some(layer => layer.path) && (
+          <p className="text-xs text-gray-500">Text on a path keeps its font size</p>
+        )}
+        {isFitted && (
+          <>
+            <div className="grid grid-cols-2 gap-4">
+              {([
+                { key: 'width', label: 'Box Width' },
+                { key: 'height', label: 'Box Height' },
+              ] as const).map(({ key, label }) => (
+                <div key={key} className="space-y-2">
+                  <label className="text-xs text-gray-600">{label}</label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={isMixed(key) ? '' : Math.round(selectedLayer[key])}
+                    placeholder={mixedPlaceholder(key)}
+                    onChange={(e) => handleBoxSizeChange(key, parseInt(e.target.value))}
+                    className="w-full p-2 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black bg-white"
+                    style={{ color: '#000000' }}
+                  />
+                </div>
+              ))}
+              {([
+                { key: 'minFontSize', label: 'Min Size', fallback: MIN_FONT_SIZE },
+                { key: 'maxFontSize', label: 'Max Size', fallback: MAX_FONT_SIZE },
+              ] as const).map(({ key, label, fallback }) => (
+                <div key={key} className="space-y-2">
+                  <label className="text-xs text-gray-600">{label}</label>
+                  <input
+                    type="number"
+                    min={MIN_FONT_SIZE}
+                    max={MAX_FONT_SIZE}
+                    value={isMixed(key) ? '' : selectedLayer[key] ?? fallback}
+                    placeholder={mixedPlaceholder(key)}
+                    onChange={(e) => handleFitLimitChange(key, parseInt(e.target.value))}
+                    className="w-full p-2 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black bg-white"
+                    style={{ color: '#000000' }}
+                  />
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500">
+              The font size ({selectedLayers.length > 1 ? 'per layer' : `${selectedLayer.fontSize}px`}) is the largest within the limits that fits the box; drag the handles to resize it
+            </p>
+          </>
+        )}
+      </div>
+
+      {/* Text Shadow */}
+      <div className="space-y-3">
+        <label className="text-sm font-medium text-gray-900">Shadow</label>
+        <div className="flex items-center space-x-3">
+          <input
+            type="color"
+            value={selectedLayer.shadowColor || '#000000'}
+            onChange={(e) => onUpdateLayers({ shadowColor: e.target.value })}
+            className="w-12 h-8 border border-gray-300 rounded cursor-pointer"
+            title="Shadow color"
+          />
+          <div className="flex-1 space-y-1">
+            <label className="text-xs text-gray-600">Blur: {isMixed('shadowBlur') ? 'Mixed' : `${selectedLayer.shadowBlur || 0}px`}</label>
+            <input
+              type="range"
+              min="0"
+              max="50"
+              value={selectedLayer.shadowBlur || 0}
+              onChange={(e) => onUpdateLayers({ shadowBlur: parseInt(e.target.value) })}
+              className="w-full"
+            />
+          </div>
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label className="text-xs text-gray-600">Offset X</label>
+            <input
+              type="number"
+              min="-50"
+              max="50"
+              value={isMixed('shadowOffsetX') ? '' : selectedLayer.shadowOffsetX || 0}
+              placeholder={mixedPlaceholder('shadowOffsetX')}
+              onChange={(e) => onUpdateLayers({ shadowOffsetX: parseInt(e.target.value) || 0 })}
+              className="w-full p-2 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black bg-white"
+              style={{ color: '#000000' }}
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-xs text-gray-600">Offset Y</label>
+            <input
+              type="number"
+              min="-50"
+              max="50"
+              value={isMixed('shadowOffsetY') ? '' : selectedLayer.shadowOffsetY || 0}
+              placeholder={mixedPlaceholder('shadowOffsetY')}
+              onChange={(e) => onUpdateLayers({ shadowOffsetY: parseInt(e.target.value) || 0 })}
+              className="w-full p-2 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black bg-white"
+              style={{ color: '#000000' }}
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Background Box */}
+      <div className="space-y-2">
+        <label className="text-sm font-medium text-gray-900">Background</label>
+        <div className="flex items-center space-x-3">
+          <input
+            type="checkbox"
+            checked={!!selectedLayer.backgroundColor && selectedLayer.backgroundColor !== 'transparent'}
+            onChange={(e) => onUpdateLayers({ backgroundColor: e.target.checked ? '#FFFFFF' : 'transparent' })}
+            className="w-4 h-4"
+            title="Toggle background"
+          />
+          <input
+            type="color"
+            value={selectedLayer.backgroundColor && selectedLayer.backgroundColor !== 'transparent' ? selectedLayer.backgroundColor : '#FFFFFF'}
+            onChange={(e) => onUpdateLayers({ backgroundColor: e.target.value })}
+            disabled={!selectedLayer.backgroundColor || selectedLayer.backgroundColor === 'transparent'}
+            className="w-12 h-8 border border-gray-300 rounded cursor-pointer disabled:opacity-30 disabled:cursor-not-allowed"
+            title="Background color"
+          />
+          <span className="text-xs text-gray-500">
+            {isMixed('backgroundColor')
+              ? 'Mixed'
+              : selectedLayer.backgroundColor && selectedLayer.backgroundColor !== 'transparent' ? selectedLayer.backgroundColor : 'None'}
+          </span>
+        </div>
+      </div>
+
+      {/* Border */}
+      <div className="space-y-2">
+        <label className="text-sm font-medium text-gray-900">Border</label>
+        <div className="flex items-center space-x-3">
+          <input
+            type="color"
+            value={selectedLayer.borderColor || '#000000'}
+            onChange={(e) => onUpdateLayers({ borderColor: e.target.value })}
+            className="w-12 h-8 border border-gray-300 rounded cursor-pointer"
+            title="Border color"
+          />
+          <div className="flex-1 space-y-1">
+            <label className="text-xs text-gray-600">Width: {isMixed('borderWidth') ? 'Mixed' : `${selectedLayer.borderWidth || 0}px`}</label>
+            <input
+              type="range"
+              min="0"
+              max="20"
+              value={selectedLayer.borderWidth || 0}
+              onChange={(e) => onUpdateLayers({ borderWidth: parseInt(e.target.value) })}
+              className="w-full"
+            />
+          </div>
+        </div>
+      </div>
+
       {/* Position Controls */}
       <div className="space-y-3">
         <label className="text-sm font-medium text-gray-900">Position</label>
@@ -550,8 +1024,9 @@ const TextProperties: React.FC<TextPropertiesProps> = ({
             <label className="text-xs text-gray-600">X Position</label>
             <input
               type="number"
-              value={Math.round(selectedLayer.x)}
-              onChange={(e) => onUpdateLayer({ x: parseInt(e.target.value) })}
+              value={isMixed('x') ? '' : Math.round(selectedLayer.x)}
+              placeholder={mixedPlaceholder('x')}
+              onChange={(e) => onUpdateLayers({ x: parseInt(e.target.value) })}
               className="w-full p-2 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black bg-white"
               style={{ color: '#000000' }}
             />
@@ -560,8 +1035,9 @@ const TextProperties: React.FC<TextPropertiesProps> = ({
             <label className="text-xs text-gray-600">Y Position</label>
             <input
               type="number"
-              value={Math.round(selectedLayer.y)}
-              onChange={(e) => onUpdateLayer({ y: parseInt(e.target.value) })}
+              value={isMixed('y') ? '' : Math.round(selectedLayer.y)}
+              placeholder={mixedPlaceholder('y')}
+              onChange={(e) => onUpdateLayers({ y: parseInt(e.target.value) })}
               className="w-full p-2 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black bg-white"
               style={{ color: '#000000' }}
             />
@@ -570,23 +1046,25 @@ const TextProperties: React.FC<TextPropertiesProps> = ({
       </div>
 
       {/* Layer Info */}
-      <div className="bg-gray-50 border border-gray-200 rounded-lg p-3">
-        <h4 className="text-xs font-medium text-gray-700 mb-2">Layer Information</h4>
-        <div className="text-xs text-gray-600 space-y-1">
-          <div className="flex justify-between">
-            <span>Width:</span>
-            <span>{Math.round(selectedLayer.width)}px</span>
-          </div>
-          <div className="flex justify-between">
-            <span>Height:</span>
-            <span>{Math.round(selectedLayer.height)}px</span>
-          </div>
-          <div className="flex justify-between">
-            <span>Z-Index:</span>
-            <span>{selectedLayer.zIndex}</span>
+      {!isMultiple && (
+        <div className="bg-gray-50 border border-gray-200 rounded-lg p-3">
+          <h4 className="text-xs font-medium text-gray-700 mb-2">Layer Information</h4>
+          <div className="text-xs text-gray-600 space-y-1">
+            <div className="flex justify-between">
+              <span>Width:</span>
+              <span>{Math.round(selectedLayer.width)}px</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Height:</span>
+              <span>{Math.round(selectedLayer.height)}px</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Z-Index:</span>
+              <span>{selectedLayer.zIndex}</span>
+            </div>
           </div>
         </div>
-      </div>
+      )}
     </div>
   );
 };
@@ -12,47 +12,84 @@ import {
   ZoomOut,
   RotateCcw,
   HelpCircle,
-  Grid3X3
+  Grid3X3,
+  Ruler,
+  Save,
+  FolderOpen,
+  Library,
+  Magnet
 } from 'lucide-react';
+import { PROJECT_FILE_EXTENSION } from '@/lib/project';
+import { SNAP_THRESHOLD_OPTIONS } from '@/lib/snapping';
 
 interface ToolbarProps {
   canUndo: boolean;
   canRedo: boolean;
-  hasImage: boolean;
+  hasCanvas: boolean;
   hasSelectedLayer: boolean;
+  zoom: number;
   showGrid: boolean;
+  showRulers: boolean;
+  snapThreshold: number;
   onUndo: () => void;
   onRedo: () => void;
   onAddText: () => void;
   onDuplicateLayer: () => void;
   onDeleteLayer: () => void;
   onExport: () => void;
+  onSaveProject: () => void;
+  onOpenProject: (file: File) => void;
+  onShowProjects: () => void;
   onResetZoom: () => void;
   onZoomIn: () => void;
   onZoomOut: () => void;
+  onFitView: () => void;
+  onFillView: () => void;
   onToggleGrid: () => void;
+  onToggleRulers: () => void;
+  onSnapThresholdChange: (threshold: number) => void;
   onResetDesign: () => void;
 }
 
 const Toolbar: React.FC<ToolbarProps> = ({
   canUndo,
   canRedo,
-  hasImage,
+  hasCanvas,
   hasSelectedLayer,
+  zoom,
   showGrid,
+  showRulers,
+  snapThreshold,
   onUndo,
   onRedo,
   onAddText,
   onDuplicateLayer,
   onDeleteLayer,
   onExport,
+  onSaveProject,
+  onOpenProject,
+  onShowProjects,
   onResetZoom,
   onZoomIn,
   onZoomOut,
+  onFitView,
+  onFillView,
   onToggleGrid,
+  onToggleRulers,
+  onSnapThresholdChange,
   onResetDesign,
 }) => {
   const [showShortcuts, setShowShortcuts] = React.useState(false);
+  const projectInputRef = React.useRef<HTMLInputElement>(null);
+
+  const handleProjectFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      onOpenProject(file);
+    }
+    // Allow opening the same file again
+    e.target.value = '';
+  };
 
   return (
     <div className="bg-white border-b border-gray-200 px-4 py-2">
@@ -79,7 +116,7 @@ const Toolbar: React.FC<ToolbarProps> = ({
           
           <div className="w-px h-6 bg-gray-300 mx-2"></div>
           
-          {hasImage && (
+          {hasCanvas && (
             <button
               onClick={onAddText}
               className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
@@ -111,7 +148,7 @@ const Toolbar: React.FC<ToolbarProps> = ({
         </div>
 
         {/* Center - Zoom controls */}
-        {hasImage && (
+        {hasCanvas && (
           <div className="flex items-center space-x-2">
             <button
               onClick={onZoomOut}
@@ -124,9 +161,9 @@ const Toolbar: React.FC<ToolbarProps> = ({
             <button
               onClick={onResetZoom}
               className="px-3 py-1 text-sm text-gray-600 hover:text-gray-800 transition-colors"
-              title="Reset Zoom"
+              title="Reset Zoom to 100% (0)"
             >
-              100%
+              {Math.round(zoom * 100)}%
             </button>
             
             <button
@@ -136,6 +173,22 @@ const Toolbar: React.FC<ToolbarProps> = ({
             >
               <ZoomIn className="w-4 h-4" />
             </button>
+
+            <button
+              onClick={onFitView}
+              className="px-2 py-1 text-sm text-gray-600 hover:text-gray-800 transition-colors"
+              title="Fit Design in View"
+            >
+              Fit
+            </button>
+
+            <button
+              onClick={onFillView}
+              className="px-2 py-1 text-sm text-gray-600 hover:text-gray-800 transition-colors"
+              title="Fill View with Design"
+            >
+              Fill
+            </button>
             
             <div className="w-px h-6 bg-gray-300 mx-2"></div>
             
@@ -150,12 +203,75 @@ const Toolbar: React.FC<ToolbarProps> = ({
             >
               <Grid3X3 className="w-4 h-4" />
             </button>
+
+            <button
+              onClick={onToggleRulers}
+              className={`p-2 transition-colors ${
+                showRulers 
+                  ? 'text-blue-600 bg-blue-50' 
+                  : 'text-gray-400 hover:text-gray-600'
+              }`}
+              title="Toggle Rulers"
+            >
+              <Ruler className="w-4 h-4" />
+            </button>
+
+            <label
+              className={`flex items-center p-2 ${snapThreshold > 0 ? 'text-blue-600' : 'text-gray-400'}`}
+              title="Smart Guide Snap Distance (hold Alt to skip snapping)"
+            >
+              <Magnet className="w-4 h-4 mr-1" />
+              <select
+                value={snapThreshold}
+                onChange={(e) => onSnapThresholdChange(parseInt(e.target.value))}
+                className="text-sm text-gray-600 bg-transparent focus:outline-none cursor-pointer"
+              >
+                {SNAP_THRESHOLD_OPTIONS.map(threshold => (
+                  <option key={threshold} value={threshold}>
+                    {threshold === 0 ? 'Off' : `${threshold}px`}
+                  </option>
+                ))}
+              </select>
+            </label>
           </div>
         )}
 
-        {/* Right side - Export, reset and help */}
+        {/* Right side - Project, export, reset and help */}
         <div className="flex items-center space-x-2">
-          {hasImage && (
+          <button
+            onClick={onShowProjects}
+            className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
+            title="Projects"
+          >
+            <Library className="w-4 h-4" />
+          </button>
+
+          <button
+            onClick={() => projectInputRef.current?.click()}
+            className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
+            title="Open Project File"
+          >
+            <FolderOpen className="w-4 h-4" />
+          </button>
+          <input
+            ref={projectInputRef}
+            type="file"
+            accept={`${PROJECT_FILE_EXTENSION},application/json`}
+            onChange={handleProjectFileChange}
+            className="hidden"
+          />
+
+          {hasCanvas && (
+            <button
+              onClick={onSaveProject}
+              className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
+              title="Save Project File (Ctrl+S)"
+            >
+              <Save className="w-4 h-4" />
+            </button>
+          )}
+
+          {hasCanvas && (
             <>
               <button
                 onClick={onExport}
@@ -210,6 +326,14 @@ const Toolbar: React.FC<ToolbarProps> = ({
                   <span className="text-gray-600">Duplicate Layer</span>
                   <kbd className="px-2 py-1 bg-gray-200 rounded text-xs">Ctrl+D</kbd>
                 </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Select All</span>
+                  <kbd className="px-2 py-1 bg-gray-200 rounded text-xs">Ctrl+A</kbd>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Save Project</span>
+                  <kbd className="px-2 py-1 bg-gray-200 rounded text-xs">Ctrl+S</kbd>
+                </div>
                 <div className="flex justify-between">
                   <span className="text-gray-600">Nudge Layer</span>
                   <kbd className="px-2 py-1 bg-gray-200 rounded text-xs">Arrow Keys</kbd>
@@ -230,6 +354,14 @@ const Toolbar: React.FC<ToolbarProps> = ({
                   <span className="text-gray-600">Reset Zoom</span>
                   <kbd className="px-2 py-1 bg-gray-200 rounded text-xs">0</kbd>
                 </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Zoom to Cursor</span>
+                  <kbd className="px-2 py-1 bg-gray-200 rounded text-xs">Ctrl+Wheel</kbd>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Pan</span>
+                  <kbd className="px-2 py-1 bg-gray-200 rounded text-xs">Space+Drag</kbd>
+                </div>
                 <div className="flex justify-between">
                   <span className="text-gray-600">Add Text</span>
                   <kbd className="px-2 py-1 bg-gray-200 rounded text-xs">Double-click</kbd>
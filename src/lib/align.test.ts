@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { distributeLayers } from '@/lib/align';
+import { getLayerBounds } from '@/lib/transform';
+import { createRecordingContext } from '@/test/canvas';
+import { createLayer } from '@/test/layers';
+
+// The recording context measures 10px per character at 20px, and a line
+// box reaches 20 above its baseline
+describe('distributeLayers', () => {
+  const ctx = createRecordingContext();
+  const bounds = (layers: ReturnType<typeof distributeLayers>) =>
+    Object.fromEntries(layers.map(layer => [layer.id, getLayerBounds(ctx, layer)]));
+
+  // "wide" starts before "late" but ends after it, so the layers start and
+  // end in different orders
+  const layers = [
+    createLayer({ id: 'late', text: 'dd', x: 200 }),
+    createLayer({ id: 'first', text: 'aaaaa', x: 0 }),
+    createLayer({ id: 'wide', text: 'c'.repeat(20), x: 140 }),
+    createLayer({ id: 'early', text: 'b', x: 100 }),
+  ];
+
+  it('keeps the layer starting first and the layer ending last in place', () => {
+    const moved = bounds(distributeLayers(ctx, layers, 'horizontal'));
+
+    expect(moved.first).toMatchObject({ left: 0, right: 50 });
+    expect(moved.wide).toMatchObject({ left: 140, right: 340 });
+  });
+
+  it('spaces the layers in between by even gaps, in order of their start', () => {
+    const moved = bounds(distributeLayers(ctx, layers, 'horizontal'));
+
+    // 90 of free space between "first" and "wide" less 30 of layers
+    expect(moved.early).toMatchObject({ left: 70, right: 80 });
+    expect(moved.late).toMatchObject({ left: 100, right: 120 });
+    expect(moved.wide.left - moved.late.right).toBe(20);
+  });
+
+  it('returns the layers in the caller\'s order, moving only along the axis', () => {
+    const distributed = distributeLayers(ctx, layers, 'horizontal');
+
+    expect(distributed.map(layer => layer.id)).toEqual(['late', 'first', 'wide', 'early']);
+    expect(distributed.every(layer => layer.y === 0)).toBe(true);
+  });
+
+  it('distributes vertically by the layer boxes', () => {
+    const distributed = distributeLayers(ctx, [
+      createLayer({ id: 'top', y: 20 }),
+      createLayer({ id: 'bottom', y: 220, fontSize: 40 }),
+      createLayer({ id: 'middle', y: 70 }),
+    ], 'vertical');
+
+    const moved = bounds(distributed);
+    expect(moved.top).toMatchObject({ top: 0, bottom: 20 });
+    expect(moved.bottom).toMatchObject({ top: 180, bottom: 220 });
+    expect(moved.middle).toMatchObject({ top: 90, bottom: 110 });
+    expect(distributed.map(layer => layer.x)).toEqual([0, 0, 0]);
+  });
+
+  it('leaves fewer than three layers unchanged', () => {
+    const pair = layers.slice(0, 2);
+
+    expect(distributeLayers(ctx, pair, 'horizontal')).toBe(pair);
+  });
+});
@@ -0,0 +1,92 @@
+import { TextLayer } from '@/types';
+import { Canvas2DContext } from '@/lib/text';
+import { Bounds, getLayerBounds } from '@/lib/transform';
+
+/*
+ * Align and distribute. Both work on each layer's measured (rotated) text
+ * bounds rather than its anchor, and move layers by translating x/y only.
+ */
+
+export type AlignMode = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type AlignTarget = 'canvas' | 'selection';
+export type DistributeAxis = 'horizontal' | 'vertical';
+
+// Smallest box containing every layer
+export function getLayersBounds(ctx: Canvas2DContext, layers: TextLayer[]): Bounds | null {
+  if (layers.length === 0) return null;
+
+  const boxes = layers.map(layer => getLayerBounds(ctx, layer));
+  return {
+    left: Math.min(...boxes.map(box => box.left)),
+    top: Math.min(...boxes.map(box => box.top)),
+    right: Math.max(...boxes.map(box => box.right)),
+    bottom: Math.max(...boxes.map(box => box.bottom)),
+  };
+}
+
+function getAlignOffset(box: Bounds, reference: Bounds, mode: AlignMode): { dx: number; dy: number } {
+  switch (mode) {
+    case 'left':
+      return { dx: reference.left - box.left, dy: 0 };
+    case 'center':
+      return { dx: (reference.left + reference.right) / 2 - (box.left + box.right) / 2, dy: 0 };
+    case 'right':
+      return { dx: reference.right - box.right, dy: 0 };
+    case 'top':
+      return { dx: 0, dy: reference.top - box.top };
+    case 'middle':
+      return { dx: 0, dy: (reference.top + reference.bottom) / 2 - (box.top + box.bottom) / 2 };
+    case 'bottom':
+      return { dx: 0, dy: reference.bottom - box.bottom };
+  }
+}
+
+// Returns the layers moved so their bounds line up with `reference`
+export function alignLayers(ctx: Canvas2DContext, layers: TextLayer[], mode: AlignMode, reference: Bounds): TextLayer[] {
+  return layers.map(layer => {
+    const { dx, dy } = getAlignOffset(getLayerBounds(ctx, layer), reference, mode);
+    return { ...layer, x: layer.x + dx, y: layer.y + dy };
+  });
+}
+
+// Returns the layers moved so the gaps between neighbours are equal. The
+// outermost layers (the one starting first and the one ending last) stay
+// put and the others are spaced between them; fewer than three layers are
+// returned unchanged.
+export function distributeLayers(ctx: Canvas2DContext, layers: TextLayer[], axis: DistributeAxis): TextLayer[] {
+  if (layers.length < 3) return layers;
+
+  const horizontal = axis === 'horizontal';
+  const items = layers
+    .map(layer => {
+      const box = getLayerBounds(ctx, layer);
+      return {
+        layer,
+        start: horizontal ? box.left : box.top,
+        size: horizontal ? box.right - box.left : box.bottom - box.top,
+      };
+    })
+    .sort((a, b) => a.start - b.start);
+
+  const [first, ...rest] = items;
+  const last = rest.reduce((latest, item) => (item.start + item.size > latest.start + latest.size ? item : latest));
+  const middle = rest.filter(item => item !== last);
+
+  const middleSize = middle.reduce((sum, item) => sum + item.size, 0);
+  const gap = (last.start - (first.start + first.size) - middleSize) / (middle.length + 1);
+
+  let position = first.start + first.size + gap;
+  const moved = new Map<string, TextLayer>();
+  middle.forEach(item => {
+    const delta = position - item.start;
+    moved.set(item.layer.id, {
+      ...item.layer,
+      x: horizontal ? item.layer.x + delta : item.layer.x,
+      y: horizontal ? item.layer.y : item.layer.y + delta,
+    });
+    position += item.size + gap;
+  });
+
+  // Keep the caller's order
+  return layers.map(layer => moved.get(layer.id) ?? layer);
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { ExportPreset } from '@/types';
+import { getExportFilename, getExportSize } from '@/lib/export';
+import { createState } from '@/test/layers';
+
+describe('getExportSize', () => {
+  // A 1200 × 900 photo edited at 400 × 300
+  const state = createState({ sourceWidth: 1200, sourceHeight: 900 });
+
+  it('exports at the source resolution times the scale', () => {
+    expect(getExportSize(state, { scale: 1 })).toEqual({ width: 1200, height: 900, scale: 3, offsetX: 0, offsetY: 0 });
+    expect(getExportSize(state, { scale: 0.5 })).toMatchObject({ width: 600, height: 450, scale: 1.5 });
+  });
+
+  it('fits a single target dimension', () => {
+    expect(getExportSize(state, { scale: 1, width: 800 })).toMatchObject({ width: 800, height: 600, scale: 2 });
+    expect(getExportSize(state, { scale: 1, height: 150 })).toMatchObject({ width: 200, height: 150, scale: 0.5 });
+  });
+
+  it('covers a target box and crops the overflow evenly', () => {
+    const size = getExportSize(state, { scale: 1, width: 1080, height: 1080 });
+
+    expect(size).toMatchObject({ width: 1080, height: 1080, scale: 3.6 });
+    expect(size.offsetX).toBeCloseTo(180);
+    expect(size.offsetY).toBeCloseTo(0);
+  });
+
+  it('rounds to whole output pixels', () => {
+    expect(getExportSize(createState({ imageWidth: 333, imageHeight: 100 }), { scale: 1.5 })).toMatchObject({
+      width: 500,
+      height: 150,
+    });
+  });
+});
+
+describe('getExportFilename', () => {
+  const preset: ExportPreset = {
+    id: 'preset',
+    name: 'Post',
+    format: 'jpg',
+    quality: 0.9,
+    scale: 1,
+    width: 1080,
+    height: 1080,
+    filenameTemplate: '{name}-{width}x{height}-{index}',
+  };
+  const size = getExportSize(createState(), preset);
+
+  it('fills in the template', () => {
+    expect(getExportFilename(preset, size, 0)).toBe('Post-1080x1080-1.jpg');
+  });
+
+  it('replaces characters file systems reject', () => {
+    expect(getExportFilename({ ...preset, filenameTemplate: 'a/b:{format}' }, size, 0)).toBe('a-b-jpg.jpg');
+  });
+});
@@ -0,0 +1,185 @@
+import { CanvasState, ExportFormat, ExportOptions, ExportPreset } from '@/types';
+import { renderComposition } from '@/lib/render';
+import { buildSvg } from '@/lib/svg';
+import { dataUrlToBytes, getSourceScale, hasCanvas, loadImage } from '@/lib/utils';
+import { createZip, ZipEntry } from '@/lib/zip';
+import { loadFillImages } from '@/lib/fills';
+
+export interface ExportFormatInfo {
+  label: string;
+  mimeType: string;
+  // Whether the quality slider applies
+  lossy: boolean;
+  // Whether the format keeps an alpha channel
+  alpha: boolean;
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFormatInfo> = {
+  png: { label: 'PNG', mimeType: 'image/png', lossy: false, alpha: true },
+  jpg: { label: 'JPEG', mimeType: 'image/jpeg', lossy: true, alpha: false },
+  webp: { label: 'WebP', mimeType: 'image/webp', lossy: true, alpha: true },
+  avif: { label: 'AVIF', mimeType: 'image/avif', lossy: true, alpha: true },
+  svg: { label: 'SVG', mimeType: 'image/svg+xml', lossy: false, alpha: true },
+};
+
+const encoderSupport = new Map<ExportFormat, boolean>();
+
+// Browsers fall back to PNG for encoders they lack, so probe each MIME type once
+export function isExportFormatSupported(format: ExportFormat): boolean {
+  if (format === 'png' || format === 'jpg' || format === 'svg') return true;
+
+  if (!encoderSupport.has(format)) {
+    const canvas = document.createElement('canvas');
+    canvas.width = 1;
+    canvas.height = 1;
+    const mimeType = EXPORT_FORMATS[format].mimeType;
+    encoderSupport.set(format, canvas.toDataURL(mimeType).startsWith(`data:${mimeType}`));
+  }
+  return encoderSupport.get(format)!;
+}
+
+export interface ExportSize {
+  width: number;
+  height: number;
+  // Output pixels per design pixel
+  scale: number;
+  // Crop offset in output pixels when a target box is covered
+  offsetX: number;
+  offsetY: number;
+}
+
+export function getExportSize(
+  state: CanvasState,
+  options: Pick<ExportOptions, 'scale' | 'width' | 'height'>
+): ExportSize {
+  const designWidth = state.imageWidth;
+  const designHeight = state.imageHeight;
+
+  if (options.width && options.height) {
+    const scale = Math.max(options.width / designWidth, options.height / designHeight);
+    return {
+      width: Math.round(options.width),
+      height: Math.round(options.height),
+      scale,
+      offsetX: (designWidth * scale - options.width) / 2,
+      offsetY: (designHeight * scale - options.height) / 2,
+    };
+  }
+
+  // Scale is relative to the original image, so layers end up in
+  // source-pixel coordinates
+  let scale = options.scale * getSourceScale(state);
+  if (options.width) {
+    scale = options.width / designWidth;
+  } else if (options.height) {
+    scale = options.height / designHeight;
+  }
+
+  return {
+    width: Math.round(designWidth * scale),
+    height: Math.round(designHeight * scale),
+    scale,
+    offsetX: 0,
+    offsetY: 0,
+  };
+}
+
+// Renders the composition to a data URL in the requested format. `image`
+// is an already decoded base image to draw instead of `state.image`.
+export async function exportComposition(
+  state: CanvasState,
+  options: ExportOptions,
+  image?: CanvasImageSource
+): Promise<string> {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+
+  if (!ctx || !hasCanvas(state)) {
+    throw new Error('Failed to create canvas context');
+  }
+
+  const size = getExportSize(state, options);
+  const format = EXPORT_FORMATS[options.format];
+  // Pattern fills need their images decoded before anything is drawn
+  await loadFillImages(state.textLayers);
+
+  if (options.format === 'svg') {
+    const svg = buildSvg(ctx, state, {
+      width: size.width,
+      height: size.height,
+      viewBox: {
+        x: size.offsetX / size.scale,
+        y: size.offsetY / size.scale,
+        width: size.width / size.scale,
+        height: size.height / size.scale,
+      },
+      imageHref: state.image,
+    });
+    return `data:${format.mimeType};charset=utf-8,${encodeURIComponent(svg)}`;
+  }
+
+  if (!isExportFormatSupported(options.format)) {
+    throw new Error(`${format.label} export is not supported by this browser`);
+  }
+
+  const img = image ?? (state.image ? await loadImage(state.image) : null);
+
+  canvas.width = size.width;
+  canvas.height = size.height;
+  ctx.translate(-size.offsetX, -size.offsetY);
+
+  // Render through the same engine as the editor preview. Alpha is kept
+  // where the format supports it; JPEG gets a white matte instead.
+  renderComposition(ctx, state, {
+    scale: size.scale,
+    image: img,
+    matte: format.alpha ? null : '#ffffff',
+  });
+
+  return canvas.toDataURL(format.mimeType, format.lossy ? options.quality : undefined);
+}
+
+export function getExportFilename(preset: ExportPreset, size: ExportSize, index: number, date: Date = new Date()): string {
+  const name = preset.filenameTemplate
+    .replace(/\{name\}/g, preset.name)
+    .replace(/\{index\}/g, String(index + 1))
+    .replace(/\{format\}/g, preset.format)
+    .replace(/\{width\}/g, String(size.width))
+    .replace(/\{height\}/g, String(size.height))
+    .replace(/\{scale\}/g, `${preset.scale}x`)
+    .replace(/\{date\}/g, date.toISOString().slice(0, 10))
+    .replace(/[\\/:*?"<>|]/g, '-')
+    .trim();
+  return `${name || `export-${index + 1}`}.${preset.format}`;
+}
+
+// Runs every preset and bundles the results into a single ZIP archive
+export async function exportBatch(
+  state: CanvasState,
+  presets: ExportPreset[],
+  onProgress?: (completed: number, total: number) => void
+): Promise<Blob> {
+  const entries: ZipEntry[] = [];
+  const usedNames = new Set<string>();
+  const date = new Date();
+
+  for (let index = 0; index < presets.length; index++) {
+    const preset = presets[index];
+    const dataUrl = await exportComposition(state, preset);
+
+    // Keep file names unique inside the archive
+    const filename = getExportFilename(preset, getExportSize(state, preset), index, date);
+    const extension = `.${preset.format}`;
+    const base = filename.slice(0, -extension.length);
+    let name = filename;
+    for (let n = 2; usedNames.has(name); n++) {
+      name = `${base}-${n}${extension}`;
+    }
+    usedNames.add(name);
+
+    entries.push({ name, data: dataUrlToBytes(dataUrl) });
+    onProgress?.(index + 1, presets.length);
+  }
+
+  return createZip(entries, date);
+}
@@ -0,0 +1,82 @@
+import { GradientStop, TextFill, TextLayer } from '@/types';
+import { loadImage } from '@/lib/utils';
+
+/*
+ * Text fills. Solid fills paint each run in its own colour; gradients and
+ * image patterns span the layer's text box. The renderer is synchronous, so
+ * pattern images are decoded ahead of time and kept in a cache.
+ */
+
+export const DEFAULT_GRADIENT_STOPS: GradientStop[] = [
+  { offset: 0, color: '#F97316' },
+  { offset: 1, color: '#8B5CF6' },
+];
+
+// A fill of the given type, keeping the gradient stops when switching between gradients
+export function createTextFill(type: TextFill['type'], previous?: TextFill): TextFill {
+  const stops = previous && (previous.type === 'linear' || previous.type === 'radial')
+    ? previous.stops
+    : DEFAULT_GRADIENT_STOPS;
+
+  switch (type) {
+    case 'linear':
+      return { type, angle: 90, stops };
+    case 'radial':
+      return { type, stops };
+    case 'image':
+      return { type, image: previous?.type === 'image' ? previous.image : '', scale: 1 };
+    default:
+      return { type: 'solid' };
+  }
+}
+
+// Stops in offset order, as gradients expect
+export function getSortedStops(stops: GradientStop[]): GradientStop[] {
+  return [...stops].sort((a, b) => a.offset - b.offset);
+}
+
+// CSS preview of a gradient fill, for editor swatches
+export function getGradientCss(fill: TextFill): string | undefined {
+  if (fill.type !== 'linear' && fill.type !== 'radial') return undefined;
+
+  const stops = getSortedStops(fill.stops)
+    .map(stop => `${stop.color} ${Math.round(stop.offset * 100)}%`)
+    .join(', ');
+  return fill.type === 'linear'
+    ? `linear-gradient(${fill.angle + 90}deg, ${stops})`
+    : `radial-gradient(circle, ${stops})`;
+}
+
+const fillImages = new Map<string, HTMLImageElement>();
+const pendingImages = new Map<string, Promise<HTMLImageElement | null>>();
+
+// Decoded pattern image, or null until `loadFillImages` has loaded it
+export function getFillImage(src: string): HTMLImageElement | null {
+  return fillImages.get(src) || null;
+}
+
+function loadFillImage(src: string): Promise<HTMLImageElement | null> {
+  let pending = pendingImages.get(src);
+  if (!pending) {
+    pending = loadImage(src)
+      .then(image => {
+        fillImages.set(src, image);
+        return image;
+      })
+      .catch(() => null);
+    pendingImages.set(src, pending);
+  }
+  return pending;
+}
+
+// Images used by pattern fills that aren't decoded yet
+export function getMissingFillImages(layers: TextLayer[]): string[] {
+  return layers.flatMap(layer =>
+    layer.fill?.type === 'image' && layer.fill.image && !fillImages.has(layer.fill.image) ? [layer.fill.image] : []
+  );
+}
+
+// Decodes every pattern image the layers use, so they can be rendered
+export async function loadFillImages(layers: TextLayer[]): Promise<void> {
+  await Promise.all(getMissingFillImages(layers).map(loadFillImage));
+}
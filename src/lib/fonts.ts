@@ -57,17 +57,90 @@ export function getSystemFonts(): FontOption[] {
   ];
 }
 
-export function loadFont(fontFamily: string): Promise<void> {
+// A font family in one weight and style
+export interface FontVariant {
+  family: string;
+  weight: string;
+  italic?: boolean;
+}
+
+export const FONT_WEIGHT_NAMES: Record<string, string> = {
+  '100': 'Thin',
+  '200': 'Extra Light',
+  '300': 'Light',
+  '400': 'Regular',
+  '500': 'Medium',
+  '600': 'Semi Bold',
+  '700': 'Bold',
+  '800': 'Extra Bold',
+  '900': 'Black',
+};
+
+// Numeric CSS weight; 'normal' and 'bold' come from projects saved before weights were numeric
+export function normalizeFontWeight(weight: string | undefined): string {
+  if (weight === 'bold') return '700';
+  if (!weight || weight === 'normal') return '400';
+  return weight;
+}
+
+// Weights a font provides, from its variant names ('regular', 'bold', '300', '700italic', ...)
+export function getFontWeights(font: FontOption | undefined): string[] {
+  if (!font) return ['400', '700'];
+
+  const weights = new Set(
+    font.variants.map(variant => {
+      if (variant === 'regular' || variant === 'italic') return '400';
+      return normalizeFontWeight(variant.replace('italic', ''));
+    })
+  );
+  return Array.from(weights)
+    .filter(weight => /^\d+$/.test(weight))
+    .sort((a, b) => Number(a) - Number(b));
+}
+
+// Google Fonts-style variant name, e.g. '400' or '700italic'
+export function getFontVariantName(weight: string, italic: boolean = false): string {
+  return `${normalizeFontWeight(weight)}${italic ? 'italic' : ''}`;
+}
+
+export function parseFontVariantName(variant: string): { weight: string; italic: boolean } {
+  return { weight: normalizeFontWeight(variant.replace('italic', '')), italic: variant.endsWith('italic') };
+}
+
+const stylesheets = new Map<string, Promise<void>>();
+
+// Adds a stylesheet to the page once; resolves when it has loaded or failed
+function loadStylesheet(href: string): Promise<void> {
+  let stylesheet = stylesheets.get(href);
+  if (!stylesheet) {
+    stylesheet = new Promise(resolve => {
+      const link = document.createElement('link');
+      link.rel = 'stylesheet';
+      link.href = href;
+      link.onload = () => resolve();
+      link.onerror = () => resolve();
+      document.head.appendChild(link);
+    });
+    stylesheets.set(href, stylesheet);
+  }
+  return stylesheet;
+}
+
+export function loadFont(fontFamily: string, weight: string = '400', italic: boolean = false): Promise<void> {
   return new Promise((resolve) => {
     // For system fonts, we don't need to load anything
-    if (getSystemFonts().some(font => font.family === fontFamily)) {
+    if (isSystemFont(fontFamily)) {
       resolve();
       return;
     }
 
-    // For Google Fonts, try to load them
+    // For Google Fonts, fetch the stylesheet for this weight, then the font itself. The
+    // upright style is always loaded so fonts without italics can be slanted by the browser.
     if (document.fonts && document.fonts.load) {
-      document.fonts.load(`16px "${fontFamily}"`).then(() => {
+      const variants = italic ? [false, true] : [false];
+      const hrefs = variants.map(isItalic => getGoogleFontsCssUrl([{ family: fontFamily, weight, italic: isItalic }]));
+      const font = `${italic ? 'italic ' : ''}${normalizeFontWeight(weight)} 16px "${fontFamily}"`;
+      Promise.all(hrefs.map(href => (href ? loadStylesheet(href) : undefined))).then(() => document.fonts.load(font)).then(() => {
         resolve();
       }).catch(() => {
         // If loading fails, just resolve anyway
@@ -78,4 +151,32 @@ export function loadFont(fontFamily: string): Promise<void> {
       resolve();
     }
   });
-} 
\ No newline at end of file
+}
+
+export function isSystemFont(fontFamily: string): boolean {
+  return getSystemFonts().some(font => font.family === fontFamily);
+}
+
+// Stylesheet URL that loads the given web font variants (system fonts are skipped)
+export function getGoogleFontsCssUrl(fonts: FontVariant[]): string | null {
+  // Google Fonts wants each family's "italic,weight" pairs sorted
+  const families = new Map<string, Set<string>>();
+  fonts.filter(font => !isSystemFont(font.family)).forEach(font => {
+    const variants = families.get(font.family) || new Set<string>();
+    variants.add(`${font.italic ? 1 : 0},${normalizeFontWeight(font.weight)}`);
+    families.set(font.family, variants);
+  });
+  if (families.size === 0) return null;
+
+  const query = Array.from(families.entries())
+    .map(([family, variants]) => {
+      const pairs = Array.from(variants).sort((a, b) => {
+        const [italicA, weightA] = a.split(',').map(Number);
+        const [italicB, weightB] = b.split(',').map(Number);
+        return italicA - italicB || weightA - weightB;
+      });
+      return `family=${encodeURIComponent(family).replace(/%20/g, '+')}:ital,wght@${pairs.join(';')}`;
+    })
+    .join('&');
+  return `https://fonts.googleapis.com/css2?${query}&display=swap`;
+}
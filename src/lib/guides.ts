@@ -0,0 +1,33 @@
+import { Guide } from '@/types';
+
+/*
+ * Ruler guides. Guides are dragged out of the rulers, saved with the design
+ * and take part in snapping. Positions are in design pixels.
+ */
+
+// Distance in screen pixels within which a guide can be grabbed
+export const GUIDE_HIT_TOLERANCE = 4;
+
+// Label spacings the rulers choose from, in design pixels
+const RULER_STEPS = [1, 2, 5, 10, 20, 50, 100, 200, 500, 1000, 2000, 5000];
+
+// Smallest label spacing that keeps labels `minSpacing` screen pixels apart
+export function getRulerStep(screenScale: number, minSpacing: number = 50): number {
+  return RULER_STEPS.find(step => step * screenScale >= minSpacing) ?? RULER_STEPS[RULER_STEPS.length - 1];
+}
+
+// Most recently added guide within `tolerance` design pixels of a point
+export function getGuideAtPoint(guides: Guide[], x: number, y: number, tolerance: number): Guide | null {
+  for (let i = guides.length - 1; i >= 0; i--) {
+    const guide = guides[i];
+    const distance = Math.abs(guide.position - (guide.axis === 'x' ? x : y));
+    if (distance <= tolerance) return guide;
+  }
+  return null;
+}
+
+// Guides dragged off the canvas (back onto a ruler) are removed
+export function isGuideOnCanvas(axis: Guide['axis'], position: number, canvas: { width: number; height: number }): boolean {
+  const size = axis === 'x' ? canvas.width : canvas.height;
+  return position >= 0 && position <= size;
+}
@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import {
+  HistoryChange,
+  MERGE_WINDOW,
+  canRedo,
+  canUndo,
+  createHistory,
+  describeLayerUpdate,
+  jumpTo,
+  recordChange,
+  redo,
+  undo,
+} from '@/lib/history';
+import { createLayer, createState } from '@/test/layers';
+
+// The same design at three widths, sharing everything else
+const base = createState();
+const states = [base, { ...base, imageWidth: 500 }, { ...base, imageWidth: 600 }];
+
+// Records edits stepping through the states, at the given times
+function record(changes: HistoryChange[], times: number[]) {
+  return changes.reduce(
+    (history, change, index) => recordChange(history, states[index], states[index + 1], change, times[index]),
+    createHistory()
+  );
+}
+
+describe('recordChange', () => {
+  it('stores only the fields a change touched', () => {
+    const layer = createLayer();
+    const next = { ...base, textLayers: [layer] };
+    const history = recordChange(createHistory(), base, next, { label: 'Add text' });
+
+    expect(history.entries).toHaveLength(1);
+    expect(history.entries[0]).toMatchObject({ label: 'Add text', before: { textLayers: [] }, after: { textLayers: [layer] } });
+    expect(Object.keys(history.entries[0].after)).toEqual(['textLayers']);
+    expect(history.index).toBe(1);
+  });
+
+  it('ignores changes to the selection alone', () => {
+    const history = createHistory();
+    const selected = { ...base, selectedLayerIds: ['a'] };
+
+    expect(recordChange(history, base, selected, { label: 'Select' })).toBe(history);
+  });
+
+  it('merges same-key changes inside the merge window, keeping the oldest before', () => {
+    const change = { label: 'Resize', mergeKey: 'size' };
+    const history = record([change, change], [0, MERGE_WINDOW]);
+
+    expect(history.entries).toHaveLength(1);
+    expect(history.entries[0]).toMatchObject({ before: { imageWidth: 400 }, after: { imageWidth: 600 } });
+    expect(Object.keys(history.entries[0].after)).toEqual(['imageWidth']);
+  });
+
+  it('keeps changes apart once the window has passed or the key differs', () => {
+    const change = { label: 'Resize', mergeKey: 'size' };
+
+    expect(record([change, change], [0, MERGE_WINDOW + 1]).entries).toHaveLength(2);
+    expect(record([change, { ...change, mergeKey: 'other' }], [0, 1]).entries).toHaveLength(2);
+    expect(record([{ label: 'Resize' }, { label: 'Resize' }], [0, 1]).entries).toHaveLength(2);
+  });
+
+  it('merges drag gestures however long they take', () => {
+    const change = { label: 'Move', mergeKey: 'drag-1', mergeWindow: Infinity };
+    const history = record([change, change], [0, 60_000]);
+
+    expect(history.entries).toHaveLength(1);
+  });
+
+  it('discards undone entries when a new change is recorded', () => {
+    const history = record([{ label: 'First' }, { label: 'Second' }], [0, 1]);
+    const undone = undo(history, states[2])!;
+    const edited = { ...base, imageWidth: 700 };
+
+    const next = recordChange(undone.history, undone.state, edited, { label: 'Third' });
+
+    expect(next.entries.map(entry => entry.label)).toEqual(['First', 'Third']);
+    expect(canRedo(next)).toBe(false);
+  });
+
+  it('does not merge into an entry that was undone', () => {
+    const change = { label: 'Resize', mergeKey: 'size' };
+    const history = record([change], [0]);
+    const undone = undo(history, states[1])!;
+
+    const next = recordChange(undone.history, undone.state, states[2], change, 1);
+
+    expect(next.entries).toHaveLength(1);
+    expect(next.entries[0]).toMatchObject({ before: { imageWidth: 400 }, after: { imageWidth: 600 } });
+  });
+});
+
+describe('undo and redo', () => {
+  const history = record([{ label: 'First' }, { label: 'Second' }], [0, 1]);
+
+  it('step back and forward through the entries', () => {
+    const undone = undo(history, states[2])!;
+    expect(undone.state.imageWidth).toBe(500);
+    expect(undone.history.index).toBe(1);
+
+    const redone = redo(undone.history, undone.state)!;
+    expect(redone.state.imageWidth).toBe(600);
+    expect(redone.history.index).toBe(2);
+  });
+
+  it('return null at either end', () => {
+    expect(canUndo(createHistory())).toBe(false);
+    expect(undo(createHistory(), base)).toBeNull();
+    expect(redo(history, states[2])).toBeNull();
+  });
+
+  it('drop layers that no longer exist from the selection', () => {
+    const layer = createLayer({ id: 'added' });
+    const added = createState({ textLayers: [layer], selectedLayerIds: ['added'] });
+    const withLayer = recordChange(createHistory(), createState(), added, { label: 'Add text' });
+
+    expect(undo(withLayer, added)!.state.selectedLayerIds).toEqual([]);
+  });
+});
+
+describe('jumpTo', () => {
+  const history = record([{ label: 'First' }, { label: 'Second' }], [0, 1]);
+
+  it('undoes and redoes to reach an entry', () => {
+    const start = jumpTo(history, states[2], 0);
+    expect(start.state.imageWidth).toBe(400);
+    expect(start.history.index).toBe(0);
+
+    const end = jumpTo(start.history, start.state, 2);
+    expect(end.state.imageWidth).toBe(600);
+    expect(end.history.entries).toBe(history.entries);
+  });
+});
+
+describe('describeLayerUpdate', () => {
+  const layer = createLayer({ id: 'a', text: 'Title' });
+
+  it('labels the edit and keys it by layer and properties', () => {
+    expect(describeLayerUpdate([layer], { fontSize: 30 })).toEqual({ label: 'Change font size', mergeKey: 'a:fontSize' });
+    expect(describeLayerUpdate([layer], { x: 10, y: 20 }).label).toBe('Move \'Title\'');
+  });
+
+  it('ignores measured sizes that ride along with other edits', () => {
+    expect(describeLayerUpdate([layer], { text: 'New', width: 30, height: 20 })).toEqual({
+      label: 'Edit text \'Title\'',
+      mergeKey: 'a:text',
+    });
+    expect(describeLayerUpdate([layer], { width: 30 }).label).toBe('Resize box');
+  });
+});
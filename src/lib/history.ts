@@ -0,0 +1,223 @@
+import { CanvasState, TextLayer } from '@/types';
+
+/*
+ * Patch-based undo/redo history.
+ *
+ * Each entry stores only the top-level CanvasState fields a change touched,
+ * before and after. Unchanged fields (most importantly the base image) are
+ * never copied, and textLayers arrays share unchanged layer objects, so the
+ * history can grow without a step limit.
+ *
+ * Consecutive changes with the same merge key collapse into one entry, so a
+ * drag or a slider move becomes a single undo step.
+ */
+
+// Default time within which same-key changes merge (slider moves, typing)
+export const MERGE_WINDOW = 1000;
+
+// Fields that never create history entries
+const UNTRACKED_KEYS: (keyof CanvasState)[] = ['selectedLayerIds'];
+
+export type StatePatch = Partial<CanvasState>;
+
+export interface HistoryChange {
+  label: string;
+  // Changes with the same key merge into the previous entry
+  mergeKey?: string;
+  // How long after the previous change a merge is still allowed;
+  // Infinity for gestures whose key is unique to the gesture
+  mergeWindow?: number;
+}
+
+export interface HistoryEntry {
+  label: string;
+  before: StatePatch;
+  after: StatePatch;
+  mergeKey?: string;
+  timestamp: number;
+}
+
+export interface HistoryState {
+  entries: HistoryEntry[];
+  // Number of entries currently applied; entries past it can be redone
+  index: number;
+}
+
+export function createHistory(): HistoryState {
+  return { entries: [], index: 0 };
+}
+
+export function canUndo(history: HistoryState): boolean {
+  return history.index > 0;
+}
+
+export function canRedo(history: HistoryState): boolean {
+  return history.index < history.entries.length;
+}
+
+function diffState(prev: CanvasState, next: CanvasState): { before: StatePatch; after: StatePatch } | null {
+  const before: Record<string, unknown> = {};
+  const after: Record<string, unknown> = {};
+  let changed = false;
+
+  const keys = new Set([...Object.keys(prev), ...Object.keys(next)] as (keyof CanvasState)[]);
+  keys.forEach(key => {
+    if (UNTRACKED_KEYS.includes(key) || prev[key] === next[key]) return;
+    before[key] = prev[key];
+    after[key] = next[key];
+    changed = true;
+  });
+
+  return changed ? { before: before as StatePatch, after: after as StatePatch } : null;
+}
+
+// Records the change from prev to next, merging it into the last entry when allowed
+export function recordChange(
+  history: HistoryState,
+  prev: CanvasState,
+  next: CanvasState,
+  change: HistoryChange,
+  now: number = Date.now()
+): HistoryState {
+  const patch = diffState(prev, next);
+  if (!patch) return history;
+
+  // A new change discards anything that was undone
+  const entries = history.entries.slice(0, history.index);
+  const last = entries[entries.length - 1];
+  const mergeWindow = change.mergeWindow ?? MERGE_WINDOW;
+
+  if (last && change.mergeKey && last.mergeKey === change.mergeKey && now - last.timestamp <= mergeWindow) {
+    entries[entries.length - 1] = {
+      ...last,
+      label: change.label,
+      // Keep the oldest "before" value for every field
+      before: { ...patch.before, ...last.before },
+      after: { ...last.after, ...patch.after },
+      timestamp: now,
+    };
+    return { entries, index: entries.length };
+  }
+
+  entries.push({
+    label: change.label,
+    before: patch.before,
+    after: patch.after,
+    mergeKey: change.mergeKey,
+    timestamp: now,
+  });
+  return { entries, index: entries.length };
+}
+
+// Drops layers that no longer exist from the selection
+function applyPatch(state: CanvasState, patch: StatePatch): CanvasState {
+  const next = { ...state, ...patch };
+  const selectedLayerIds = next.selectedLayerIds.filter(id => next.textLayers.some(layer => layer.id === id));
+  if (selectedLayerIds.length !== next.selectedLayerIds.length) {
+    next.selectedLayerIds = selectedLayerIds;
+  }
+  return next;
+}
+
+export function undo(history: HistoryState, state: CanvasState): { history: HistoryState; state: CanvasState } | null {
+  if (!canUndo(history)) return null;
+
+  const entry = history.entries[history.index - 1];
+  return {
+    history: { ...history, index: history.index - 1 },
+    state: applyPatch(state, entry.before),
+  };
+}
+
+export function redo(history: HistoryState, state: CanvasState): { history: HistoryState; state: CanvasState } | null {
+  if (!canRedo(history)) return null;
+
+  const entry = history.entries[history.index];
+  return {
+    history: { ...history, index: history.index + 1 },
+    state: applyPatch(state, entry.after),
+  };
+}
+
+// Undoes or redoes until `index` entries are applied
+export function jumpTo(history: HistoryState, state: CanvasState, index: number): { history: HistoryState; state: CanvasState } {
+  let result = { history, state };
+  while (result.history.index > index) {
+    result = undo(result.history, result.state)!;
+  }
+  while (result.history.index < index) {
+    result = redo(result.history, result.state)!;
+  }
+  return result;
+}
+
+// Short display name for a layer in history labels
+export function getLayerLabel(layer: TextLayer): string {
+  const firstLine = layer.text.split('\n')[0].trim();
+  const name = firstLine.length > 20 ? `${firstLine.slice(0, 20)}…` : firstLine;
+  return `'${name || 'Text'}'`;
+}
+
+// Display name for a group of layers: the layer's name, or a count
+export function getLayersLabel(layers: TextLayer[]): string {
+  return layers.length === 1 ? getLayerLabel(layers[0]) : `${layers.length} layers`;
+}
+
+const LAYER_CHANGE_LABELS: [keyof TextLayer, string][] = [
+  ['text', 'Edit text'],
+  ['spans', 'Style text'],
+  ['fontFamily', 'Change font'],
+  ['fontSize', 'Change font size'],
+  ['fontWeight', 'Change font weight'],
+  ['fontStyle', 'Change font style'],
+  ['underline', 'Toggle underline'],
+  ['strikethrough', 'Toggle strikethrough'],
+  ['letterSpacing', 'Change letter spacing'],
+  ['textTransform', 'Change text case'],
+  ['fill', 'Change fill'],
+  ['strokeWidth', 'Change outline'],
+  ['strokeColor', 'Change outline'],
+  ['strokeJoin', 'Change outline'],
+  ['path', 'Change text path'],
+  ['mask', 'Change mask'],
+  ['color', 'Change color'],
+  ['opacity', 'Change opacity'],
+  ['blendMode', 'Change blend mode'],
+  ['textAlign', 'Change alignment'],
+  ['autoFit', 'Toggle auto-fit'],
+  ['minFontSize', 'Change auto-fit limits'],
+  ['maxFontSize', 'Change auto-fit limits'],
+  ['wrapWidth', 'Change wrap width'],
+  ['lineHeight', 'Change line height'],
+  ['shadowColor', 'Change shadow'],
+  ['shadowBlur', 'Change shadow'],
+  ['shadowOffsetX', 'Change shadow'],
+  ['shadowOffsetY', 'Change shadow'],
+  ['backgroundColor', 'Change background'],
+  ['borderColor', 'Change border'],
+  ['borderWidth', 'Change border'],
+  ['rotation', 'Rotate'],
+  ['isVisible', 'Toggle visibility'],
+  ['width', 'Resize box'],
+  ['height', 'Resize box'],
+];
+
+// Describes a property edit on one or more layers; repeated edits of the
+// same properties (slider drags, typing) merge into one entry
+export function describeLayerUpdate(layers: TextLayer[], updates: Partial<TextLayer>): HistoryChange {
+  // Measured sizes ride along with other edits; on their own they resize a fixed box
+  const allKeys = Object.keys(updates) as (keyof TextLayer)[];
+  const isSize = (key: keyof TextLayer): boolean => key === 'width' || key === 'height';
+  const keys = allKeys.every(isSize) ? allKeys : allKeys.filter(key => !isSize(key));
+  const match = LAYER_CHANGE_LABELS.find(([key]) => keys.includes(key));
+
+  let label = match ? match[1] : 'Edit layer';
+  if (keys.includes('x') || keys.includes('y')) {
+    label = `Move ${getLayersLabel(layers)}`;
+  } else if (match && (match[0] === 'rotation' || match[0] === 'text')) {
+    label = `${match[1]} ${getLayersLabel(layers)}`;
+  }
+
+  const ids = layers.map(layer => layer.id).join(',');
+  return { label, mergeKey: `${ids}:${keys.sort().join(',')}` };
+}
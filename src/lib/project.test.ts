@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { PROJECT_FORMAT, PROJECT_SCHEMA_VERSION, migrateProject, parseProject, serializeProject } from '@/lib/project';
+import { createLayer, createState } from '@/test/layers';
+
+const IMAGE = 'data:image/png;base64,AAAA';
+
+// A layer as the original editor saved it: one plain style, named weights
+const v0Layer = {
+  id: 'title',
+  text: 'Hello',
+  x: 10,
+  y: 20,
+  fontFamily: 'Roboto',
+  fontSize: 32,
+  fontWeight: 'bold',
+  color: '#ff0000',
+};
+
+// A bare CanvasState, as written by the original autosave
+const v0 = {
+  image: IMAGE,
+  imageWidth: 400,
+  imageHeight: 300,
+  textLayers: [v0Layer],
+  selectedLayerId: 'title',
+};
+
+// Each version as it was written, before later migrations
+const v1 = {
+  format: PROJECT_FORMAT,
+  version: 1,
+  savedAt: '2024-01-01T00:00:00.000Z',
+  image: IMAGE,
+  fonts: [],
+  canvas: { imageWidth: 400, imageHeight: 300, textLayers: [v0Layer], selectedLayerId: 'title' },
+};
+const v2 = { ...v1, version: 2, canvas: { imageWidth: 400, imageHeight: 300, textLayers: [v0Layer], selectedLayerIds: ['title'] } };
+const v3 = { ...v2, version: 3, canvas: { ...v2.canvas, guides: [{ id: 'g', orientation: 'vertical', position: 50 }], guidesLocked: true } };
+const v4 = {
+  ...v3,
+  version: 4,
+  canvas: {
+    ...v3.canvas,
+    textLayers: [{ ...v0Layer, fontWeight: 'normal', spans: [{ text: 'Hel' }, { text: 'lo', fontWeight: 'bold' }] }],
+  },
+};
+
+describe('migrateProject', () => {
+  it('upgrades a bare v0 canvas state to the current schema', () => {
+    const project = migrateProject(v0);
+
+    expect(project).toMatchObject({ format: PROJECT_FORMAT, version: PROJECT_SCHEMA_VERSION, image: IMAGE, fonts: [] });
+    expect(project.canvas).toMatchObject({ imageWidth: 400, imageHeight: 300, guides: [], guidesLocked: false });
+    expect(project.canvas).not.toHaveProperty('image');
+    expect(project.canvas.textLayers[0]).toMatchObject({
+      id: 'title',
+      text: 'Hello',
+      fontSize: 32,
+      fontWeight: '700',
+      spans: [{ text: 'Hello' }],
+    });
+  });
+
+  it('replaces the single selected layer with an empty selection set', () => {
+    [v0, v1].forEach(version => {
+      const { canvas } = migrateProject(version);
+
+      expect(canvas).not.toHaveProperty('selectedLayerId');
+      expect(canvas.selectedLayerIds).toEqual([]);
+    });
+  });
+
+  it('adds unlocked, empty guides to designs from before rulers', () => {
+    [v0, v1, v2].forEach(version => {
+      expect(migrateProject(version).canvas).toMatchObject({ guides: [], guidesLocked: false });
+    });
+  });
+
+  it('keeps guides and spans written by later versions', () => {
+    const { canvas } = migrateProject(v4);
+
+    expect(canvas).toMatchObject({ guides: v3.canvas.guides, guidesLocked: true });
+    expect(canvas.textLayers[0].spans).toEqual([{ text: 'Hel' }, { text: 'lo', fontWeight: '700' }]);
+  });
+
+  it('turns plain text into one span', () => {
+    [v0, v1, v2, v3].forEach(version => {
+      expect(migrateProject(version).canvas.textLayers[0].spans).toEqual([{ text: 'Hello' }]);
+    });
+  });
+
+  it('stores named font weights as numbers', () => {
+    expect(migrateProject(v3).canvas.textLayers[0].fontWeight).toBe('700');
+    expect(migrateProject(v4).canvas.textLayers[0].fontWeight).toBe('400');
+  });
+
+  it('fills in layer fields added since the file was written', () => {
+    const layer = migrateProject(v0).canvas.textLayers[0];
+
+    expect(layer).toMatchObject({ opacity: 1, rotation: 0, isVisible: true, isSelected: false });
+  });
+
+  it('rejects documents of an unknown or newer version', () => {
+    expect(() => migrateProject({ ...v4, version: PROJECT_SCHEMA_VERSION + 1 })).toThrow(
+      'This project was saved by a newer version of the app'
+    );
+    [undefined, '3', 2.5, -1].forEach(version => {
+      expect(() => migrateProject({ ...v4, version })).toThrow('Not an Image Text Composer project');
+    });
+    expect(() => migrateProject({ format: 'other', version: 1 })).toThrow('Not an Image Text Composer project');
+    expect(() => migrateProject(null)).toThrow('Not an Image Text Composer project');
+  });
+});
+
+describe('parseProject', () => {
+  it('reads back a serialized design without its selection', () => {
+    const state = createState({
+      image: IMAGE,
+      textLayers: [createLayer({ id: 'a', isSelected: true })],
+      selectedLayerIds: ['a'],
+    });
+
+    const project = parseProject(serializeProject(state));
+
+    expect(project.version).toBe(PROJECT_SCHEMA_VERSION);
+    expect(project.canvas.textLayers[0]).toMatchObject({ id: 'a', isSelected: false });
+    expect(project.canvas.selectedLayerIds).toEqual([]);
+  });
+
+  it('rejects text that is not JSON', () => {
+    expect(() => parseProject('{')).toThrow('Project file is not valid JSON');
+  });
+});
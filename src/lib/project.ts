@@ -0,0 +1,226 @@
+import { CanvasState, TextLayer } from '@/types';
+import { createDefaultTextLayer } from '@/lib/utils';
+import { getFontVariantName, isSystemFont, loadFont, normalizeFontWeight, parseFontVariantName } from '@/lib/fonts';
+import { getLayerSpans, resolveSpanStyle } from '@/lib/spans';
+
+/*
+ * Project file format (.itc)
+ *
+ * A project is a single JSON document:
+ *
+ *   {
+ *     "format": "image-text-composer",
+ *     "version": 5,
+ *     "savedAt": "2024-01-01T00:00:00.000Z",
+ *     "image": "data:image/png;base64,..." | null,
+ *     "fonts": [{ "family": "Roboto", "source": "google", "weights": ["400", "700italic"] }],
+ *     "canvas": { ...CanvasState without the image }
+ *   }
+ *
+ * The base image is embedded as a data URL so the file is self-contained.
+ * Fonts are stored as references only; web fonts are fetched again on open.
+ *
+ * Whenever the shape of CanvasState or TextLayer changes, bump
+ * PROJECT_SCHEMA_VERSION and add a migration from the previous version.
+ */
+
+export const PROJECT_FORMAT = 'image-text-composer';
+export const PROJECT_SCHEMA_VERSION = 5;
+export const PROJECT_FILE_EXTENSION = '.itc';
+
+export interface ProjectFontRef {
+  family: string;
+  source: 'system' | 'google';
+  // Variants in use, e.g. '400' or '700italic'
+  weights: string[];
+}
+
+export interface ProjectFile {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  savedAt: string;
+  image: string | null;
+  fonts: ProjectFontRef[];
+  canvas: Omit<CanvasState, 'image'>;
+}
+
+// Loosely typed document as read from disk, before migration
+type RawProject = Record<string, unknown> & { version?: number };
+
+// Each entry upgrades a document from version `key` to `key + 1`
+const MIGRATIONS: Record<number, (project: RawProject) => RawProject> = {
+  // Version 0 is a bare CanvasState, as written by the original autosave
+  0: (state) => {
+    const { image, ...canvas } = state;
+    return {
+      format: PROJECT_FORMAT,
+      version: 1,
+      savedAt: new Date().toISOString(),
+      image: image ?? null,
+      fonts: [],
+      canvas,
+    };
+  },
+  // Version 2 replaced the single selected layer with a selection set
+  1: (project) => {
+    const { selectedLayerId, ...canvas } = project.canvas as Record<string, unknown>;
+    return {
+      ...project,
+      version: 2,
+      canvas: { ...canvas, selectedLayerIds: selectedLayerId ? [selectedLayerId] : [] },
+    };
+  },
+  // Version 3 added ruler guides
+  2: (project) => ({
+    ...project,
+    version: 3,
+    canvas: { ...(project.canvas as Record<string, unknown>), guides: [], guidesLocked: false },
+  }),
+  // Version 4 stored text as styled spans; plain text becomes a single run
+  3: (project) => {
+    const canvas = project.canvas as Record<string, unknown>;
+    const textLayers = (canvas.textLayers as Record<string, unknown>[]) || [];
+    return {
+      ...project,
+      version: 4,
+      canvas: {
+        ...canvas,
+        textLayers: textLayers.map(layer => ({ ...layer, spans: [{ text: layer.text ?? '' }] })),
+      },
+    };
+  },
+  // Version 5 stored weights as numbers ('400'), replacing 'normal' and 'bold'
+  4: (project) => {
+    const canvas = project.canvas as Record<string, unknown>;
+    const textLayers = (canvas.textLayers as (Partial<TextLayer> & Record<string, unknown>)[]) || [];
+    return {
+      ...project,
+      version: 5,
+      canvas: {
+        ...canvas,
+        textLayers: textLayers.map(layer => ({
+          ...layer,
+          fontWeight: normalizeFontWeight(layer.fontWeight),
+          spans: (layer.spans || []).map(span =>
+            span.fontWeight ? { ...span, fontWeight: normalizeFontWeight(span.fontWeight) } : span
+          ),
+        })),
+      },
+    };
+  },
+};
+
+function getVersion(project: RawProject): number {
+  if (project.format !== PROJECT_FORMAT) {
+    // Bare canvas state from before the project format existed
+    return 'textLayers' in project ? 0 : -1;
+  }
+  // Only whole versions have migrations
+  return Number.isInteger(project.version) ? project.version as number : -1;
+}
+
+// Fills in fields added to TextLayer since the file was written
+function normalizeTextLayer(layer: Partial<TextLayer>): TextLayer {
+  const defaults = createDefaultTextLayer(0, 0);
+  const text = layer.text ?? defaults.text;
+  const spans = layer.spans && layer.spans.length > 0 ? layer.spans : [{ text }];
+  return { ...defaults, ...layer, text, spans, isSelected: false } as TextLayer;
+}
+
+export function getProjectFonts(state: CanvasState): ProjectFontRef[] {
+  const fonts = new Map<string, ProjectFontRef>();
+  const addFont = (family: string, variant: string) => {
+    const font = fonts.get(family) || {
+      family,
+      source: isSystemFont(family) ? 'system' : 'google',
+      weights: [],
+    };
+    if (!font.weights.includes(variant)) {
+      font.weights.push(variant);
+    }
+    fonts.set(family, font);
+  };
+  state.textLayers.forEach(layer => {
+    getLayerSpans(layer).forEach(span => {
+      const style = resolveSpanStyle(layer, span);
+      addFont(style.fontFamily, getFontVariantName(style.fontWeight, style.fontStyle === 'italic'));
+    });
+  });
+  return Array.from(fonts.values());
+}
+
+// Loads every web font variant a project uses before it is shown
+export function loadProjectFonts(fonts: ProjectFontRef[]): Promise<void[]> {
+  return Promise.all(fonts.flatMap(font => font.weights.map(variant => {
+    const { weight, italic } = parseFontVariantName(variant);
+    return loadFont(font.family, weight, italic);
+  })));
+}
+
+export function serializeProject(state: CanvasState): string {
+  const { image, ...canvas } = state;
+  const project: ProjectFile = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_SCHEMA_VERSION,
+    savedAt: new Date().toISOString(),
+    image,
+    fonts: getProjectFonts(state),
+    canvas: {
+      ...canvas,
+      textLayers: canvas.textLayers.map(layer => ({ ...layer, isSelected: false })),
+      selectedLayerIds: [],
+    },
+  };
+  return JSON.stringify(project);
+}
+
+// Upgrades a parsed document of any known version to the current schema
+export function migrateProject(data: unknown): ProjectFile {
+  if (!data || typeof data !== 'object') {
+    throw new Error('Not an Image Text Composer project');
+  }
+
+  let project = data as RawProject;
+  let version = getVersion(project);
+
+  if (version < 0) {
+    throw new Error('Not an Image Text Composer project');
+  }
+  if (version > PROJECT_SCHEMA_VERSION) {
+    throw new Error('This project was saved by a newer version of the app');
+  }
+
+  while (version < PROJECT_SCHEMA_VERSION) {
+    project = MIGRATIONS[version](project);
+    version = getVersion(project);
+  }
+
+  const file = project as unknown as ProjectFile;
+  if (!file.canvas || !Array.isArray(file.canvas.textLayers)) {
+    throw new Error('Project file is missing its canvas');
+  }
+
+  return {
+    ...file,
+    fonts: Array.isArray(file.fonts) ? file.fonts : [],
+    canvas: {
+      ...file.canvas,
+      textLayers: file.canvas.textLayers.map(normalizeTextLayer),
+      selectedLayerIds: [],
+    },
+  };
+}
+
+export function parseProject(json: string): ProjectFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Project file is not valid JSON');
+  }
+  return migrateProject(data);
+}
+
+export function projectToCanvasState(project: ProjectFile): CanvasState {
+  return { ...project.canvas, image: project.image };
+}
@@ -0,0 +1,253 @@
+import { CanvasState } from '@/types';
+import { ProjectFile, migrateProject, projectToCanvasState, serializeProject } from '@/lib/project';
+import { exportComposition } from '@/lib/export';
+import { blobToDataUrl, createImageProxy, dataUrlToBytes, loadImage } from '@/lib/utils';
+
+/*
+ * Project library backed by IndexedDB.
+ *
+ * Designs live in the `projects` store as project documents (see project.ts)
+ * with the image stripped out. Base images are kept as Blobs in the `images`
+ * store under the project id, so re-saving layer edits never rewrites the
+ * image and large uploads don't count against a string quota.
+ */
+
+const DB_NAME = 'image-text-composer';
+const DB_VERSION = 1;
+const PROJECTS_STORE = 'projects';
+const IMAGES_STORE = 'images';
+
+const THUMBNAIL_WIDTH = 240;
+
+// The base image decoded once at thumbnail size; autosave redraws the
+// thumbnail after every edit
+let thumbnailImage: { src: string; image: Promise<CanvasImageSource> } | null = null;
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  // Small PNG preview as a data URL
+  thumbnail: string | null;
+  width: number;
+  height: number;
+}
+
+interface ProjectRecord extends ProjectSummary {
+  project: ProjectFile;
+}
+
+interface ImageRecord {
+  id: string;
+  blob: Blob;
+}
+
+export interface SaveProjectOptions {
+  // Write the base image too; skip when only layers changed
+  saveImage: boolean;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+          db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(IMAGES_STORE)) {
+          db.createObjectStore(IMAGES_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later retry if opening failed
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('Transaction aborted'));
+  });
+}
+
+function toSummary(record: ProjectRecord): ProjectSummary {
+  const { id, name, createdAt, updatedAt, thumbnail, width, height } = record;
+  return { id, name, createdAt, updatedAt, thumbnail, width, height };
+}
+
+function dataUrlToBlob(dataUrl: string): Blob {
+  const mimeType = dataUrl.slice(5, dataUrl.indexOf(';')) || 'application/octet-stream';
+  return new Blob([dataUrlToBytes(dataUrl)] as BlobPart[], { type: mimeType });
+}
+
+export function createProjectId(): string {
+  return `project-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+}
+
+function getThumbnailImage(state: CanvasState): Promise<CanvasImageSource> | undefined {
+  if (!state.image) return undefined;
+  if (thumbnailImage?.src !== state.image) {
+    const height = (THUMBNAIL_WIDTH * state.imageHeight) / state.imageWidth;
+    const image = loadImage(state.image).then(img => createImageProxy(img, THUMBNAIL_WIDTH, height));
+    // Decode again next time if this one failed
+    image.catch(() => {
+      thumbnailImage = null;
+    });
+    thumbnailImage = { src: state.image, image };
+  }
+  return thumbnailImage.image;
+}
+
+export async function createThumbnail(state: CanvasState): Promise<string | null> {
+  try {
+    const image = await getThumbnailImage(state);
+    return await exportComposition(state, { format: 'png', quality: 1, scale: 1, width: THUMBNAIL_WIDTH }, image);
+  } catch (error) {
+    console.warn('Failed to create thumbnail:', error);
+    return null;
+  }
+}
+
+// Most recently edited first
+export async function listProjects(): Promise<ProjectSummary[]> {
+  const db = await openDatabase();
+  const store = db.transaction(PROJECTS_STORE, 'readonly').objectStore(PROJECTS_STORE);
+  const records = await requestToPromise(store.getAll() as IDBRequest<ProjectRecord[]>);
+  return records.map(toSummary).sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function loadProject(id: string): Promise<{ summary: ProjectSummary; state: CanvasState }> {
+  const db = await openDatabase();
+  const transaction = db.transaction([PROJECTS_STORE, IMAGES_STORE], 'readonly');
+  const record = await requestToPromise(
+    transaction.objectStore(PROJECTS_STORE).get(id) as IDBRequest<ProjectRecord | undefined>
+  );
+  const image = await requestToPromise(
+    transaction.objectStore(IMAGES_STORE).get(id) as IDBRequest<ImageRecord | undefined>
+  );
+
+  if (!record) {
+    throw new Error('Project not found');
+  }
+
+  const project = migrateProject(record.project);
+  project.image = image ? await blobToDataUrl(image.blob) : null;
+
+  return { summary: toSummary(record), state: projectToCanvasState(project) };
+}
+
+export async function saveProject(
+  id: string,
+  name: string,
+  state: CanvasState,
+  options: SaveProjectOptions
+): Promise<ProjectSummary> {
+  // Build everything async before opening the transaction; IndexedDB
+  // transactions commit as soon as they are left idle
+  const thumbnail = await createThumbnail(state);
+  const project = JSON.parse(serializeProject({ ...state, image: null })) as ProjectFile;
+  const imageBlob = options.saveImage && state.image ? dataUrlToBlob(state.image) : null;
+
+  const db = await openDatabase();
+  const transaction = db.transaction([PROJECTS_STORE, IMAGES_STORE], 'readwrite');
+  const projects = transaction.objectStore(PROJECTS_STORE);
+  const existing = await requestToPromise(projects.get(id) as IDBRequest<ProjectRecord | undefined>);
+
+  const now = Date.now();
+  const record: ProjectRecord = {
+    id,
+    name,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+    thumbnail,
+    width: state.sourceWidth || state.imageWidth,
+    height: state.sourceHeight || state.imageHeight,
+    project,
+  };
+  projects.put(record);
+
+  if (options.saveImage) {
+    const images = transaction.objectStore(IMAGES_STORE);
+    if (imageBlob) {
+      images.put({ id, blob: imageBlob } as ImageRecord);
+    } else {
+      images.delete(id);
+    }
+  }
+
+  await transactionDone(transaction);
+  return toSummary(record);
+}
+
+export async function renameProject(id: string, name: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(PROJECTS_STORE, 'readwrite');
+  const store = transaction.objectStore(PROJECTS_STORE);
+  const record = await requestToPromise(store.get(id) as IDBRequest<ProjectRecord | undefined>);
+  if (!record) {
+    throw new Error('Project not found');
+  }
+  store.put({ ...record, name });
+  await transactionDone(transaction);
+}
+
+export async function duplicateProject(id: string): Promise<ProjectSummary> {
+  const db = await openDatabase();
+  const transaction = db.transaction([PROJECTS_STORE, IMAGES_STORE], 'readwrite');
+  const projects = transaction.objectStore(PROJECTS_STORE);
+  const images = transaction.objectStore(IMAGES_STORE);
+
+  const record = await requestToPromise(projects.get(id) as IDBRequest<ProjectRecord | undefined>);
+  const image = await requestToPromise(images.get(id) as IDBRequest<ImageRecord | undefined>);
+  if (!record) {
+    throw new Error('Project not found');
+  }
+
+  const now = Date.now();
+  const copy: ProjectRecord = {
+    ...record,
+    id: createProjectId(),
+    name: `${record.name} (copy)`,
+    createdAt: now,
+    updatedAt: now,
+  };
+  projects.put(copy);
+  if (image) {
+    images.put({ id: copy.id, blob: image.blob } as ImageRecord);
+  }
+
+  await transactionDone(transaction);
+  return toSummary(copy);
+}
+
+export async function deleteProject(id: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([PROJECTS_STORE, IMAGES_STORE], 'readwrite');
+  transaction.objectStore(PROJECTS_STORE).delete(id);
+  transaction.objectStore(IMAGES_STORE).delete(id);
+  await transactionDone(transaction);
+}
@@ -0,0 +1,140 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { renderComposition } from '@/lib/render';
+import { RecordedGradient, RecordingCanvas, createRecordingContext } from '@/test/canvas';
+import { createLayer, createState } from '@/test/layers';
+
+// Scratch surfaces layers are composited through
+const groupCanvases: RecordingCanvas[] = [];
+
+beforeAll(() => {
+  vi.stubGlobal('OffscreenCanvas', class extends RecordingCanvas {
+    constructor(width: number, height: number) {
+      super(width, height);
+      groupCanvases.push(this);
+    }
+  });
+});
+
+// The scratch surface is shared, so only its latest calls are inspected
+function renderGroup(render: () => void) {
+  groupCanvases.forEach(canvas => {
+    canvas.context.calls = [];
+  });
+  render();
+  return groupCanvases[0].context;
+}
+
+describe('renderComposition', () => {
+  it('clears the design and paints the matte, background and image at the output scale', () => {
+    const ctx = createRecordingContext();
+    const image = {} as CanvasImageSource;
+    const state = createState({ background: { type: 'solid', color: '#ff0000' } });
+
+    renderComposition(ctx, state, { scale: 2, image, matte: '#ffffff' });
+
+    expect(ctx.callsTo('clearRect')[0].args).toEqual([0, 0, 800, 600]);
+    const fills = ctx.callsTo('fillRect');
+    expect(fills.map(call => call.state.fillStyle)).toEqual(['#ffffff', '#ff0000']);
+    expect(fills[1].args).toEqual([0, 0, 800, 600]);
+    expect(ctx.callsTo('drawImage')[0].args).toEqual([image, 0, 0, 800, 600]);
+  });
+
+  it('draws visible layers in stacking order at their scaled position', () => {
+    const ctx = createRecordingContext();
+    const state = createState({
+      textLayers: [
+        createLayer({ id: 'top', text: 'Top', zIndex: 2, x: 100, y: 50 }),
+        createLayer({ id: 'hidden', text: 'Hidden', zIndex: 3, isVisible: false }),
+        createLayer({ id: 'bottom', text: 'Bottom', zIndex: 1, opacity: 0.5 }),
+      ],
+    });
+
+    renderComposition(ctx, state, { scale: 2 });
+
+    const texts = ctx.callsTo('fillText');
+    expect(texts.map(call => call.args[0])).toEqual(['Bottom', 'Top']);
+    expect(texts[0].state.globalAlpha).toBe(0.5);
+    expect(texts[1].state.font).toBe('400 40px Arial');
+    expect(texts[1].state.transform).toMatchObject({ e: 200, f: 100 });
+  });
+
+  it('strokes outlines beneath the fill at twice their width', () => {
+    const ctx = createRecordingContext();
+    const state = createState({ textLayers: [createLayer({ strokeWidth: 3, strokeColor: '#00ff00' })] });
+
+    renderComposition(ctx, state, { scale: 1 });
+
+    const [stroke] = ctx.callsTo('strokeText');
+    expect(stroke.state.lineWidth).toBe(6);
+    expect(stroke.state.strokeStyle).toBe('#00ff00');
+    expect(ctx.calls.indexOf(stroke)).toBeLessThan(ctx.calls.indexOf(ctx.callsTo('fillText')[0]));
+  });
+
+  it('fills gradient text across the text box', () => {
+    const ctx = createRecordingContext();
+    const layer = createLayer({
+      fill: { type: 'linear', angle: 0, stops: [{ offset: 1, color: '#0000ff' }, { offset: 0, color: '#ff0000' }] },
+    });
+
+    renderComposition(ctx, createState({ textLayers: [layer] }), { scale: 1 });
+
+    const gradient = ctx.callsTo('fillText')[0].state.fillStyle as RecordedGradient;
+    expect(gradient.type).toBe('linear');
+    // "Hello" is 50 wide, from the first baseline up 20
+    expect(gradient.args).toEqual([0, -10, 50, -10]);
+    expect(gradient.stops).toEqual([[0, '#ff0000'], [1, '#0000ff']]);
+  });
+
+  it('composites blended layers once with their blend mode', () => {
+    const ctx = createRecordingContext();
+    const state = createState({ textLayers: [createLayer({ blendMode: 'multiply', backgroundColor: '#ffff00' })] });
+
+    const group = renderGroup(() => renderComposition(ctx, state, { scale: 1 }));
+
+    // The box and text are drawn together on the scratch surface
+    expect(group.callsTo('fillRect')[0].state.fillStyle).toBe('#ffff00');
+    expect(group.callsTo('fillText')[0].args[0]).toBe('Hello');
+    expect(ctx.callsTo('fillText')).toHaveLength(0);
+
+    const [composite] = ctx.callsTo('drawImage');
+    expect(composite.state.globalCompositeOperation).toBe('multiply');
+  });
+
+  it('reveals the backdrop through image-masked text', () => {
+    const ctx = createRecordingContext();
+    const image = {} as CanvasImageSource;
+    const state = createState({ textLayers: [createLayer({ mask: { type: 'image' } })] });
+
+    const group = renderGroup(() => renderComposition(ctx, state, { scale: 1, image }));
+
+    const fillIndex = group.calls.findIndex(call => call.method === 'fillText');
+    const backdrop = group.calls.findIndex(call => call.method === 'drawImage' && call.args[0] === image);
+    expect(fillIndex).toBeGreaterThanOrEqual(0);
+    expect(backdrop).toBeGreaterThan(fillIndex);
+    expect(group.calls[backdrop].state.globalCompositeOperation).toBe('source-in');
+  });
+
+  it('cuts knockout text out of its block', () => {
+    const ctx = createRecordingContext();
+    const layer = createLayer({ mask: { type: 'knockout', color: '#222222', padding: 10, extent: 'box' } });
+
+    const group = renderGroup(() => renderComposition(ctx, createState({ textLayers: [layer] }), { scale: 1 }));
+
+    const [block] = group.callsTo('fillRect');
+    expect(block.state.fillStyle).toBe('#222222');
+    expect(block.args).toEqual([-10, -30, 70, 40]);
+    expect(group.callsTo('fillText')[0].state.globalCompositeOperation).toBe('destination-out');
+  });
+
+  it('draws selection overlays only in the editor', () => {
+    const layer = createLayer({ id: 'selected' });
+    const exported = createRecordingContext();
+    const editor = createRecordingContext();
+
+    renderComposition(exported, createState({ textLayers: [layer] }), { scale: 1 });
+    renderComposition(editor, createState({ textLayers: [layer] }), { scale: 1, selectedLayerIds: ['selected'] });
+
+    expect(exported.callsTo('strokeRect')).toHaveLength(0);
+    expect(editor.callsTo('strokeRect').length).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,696 @@
+import { BlendMode, CanvasBackground, CanvasState, Guide, PathPoint, TextFill, TextLayer, TextMask, TextPath } from '@/types';
+import {
+  Canvas2DContext,
+  getFontString,
+  getLineOffset,
+  isPointInLayout,
+  layoutText,
+  PathGlyph,
+  TextLayout,
+  TextRun,
+} from '@/lib/text';
+import { Bounds, getSelectionFrame, HANDLE_SIZE } from '@/lib/transform';
+import { SnapGuide } from '@/lib/snapping';
+import { getFillImage, getSortedStops } from '@/lib/fills';
+import { getCurveSegments, getLayerPath, MIN_ARC_RADIUS } from '@/lib/textPath';
+
+export interface RenderOptions {
+  // Output pixels per design pixel (editor zoom or export scale)
+  scale: number;
+  // Decoded base image; omitted when rendering text only
+  image?: CanvasImageSource | null;
+  // Solid colour painted under everything, for formats without alpha (JPEG)
+  matte?: string | null;
+  // Editor-only overlays
+  showGrid?: boolean;
+  gridSize?: number;
+  selectedLayerIds?: string[];
+  // Draws the design's ruler guides
+  showGuides?: boolean;
+  // Rubber-band selection rectangle, in design coordinates
+  marquee?: Bounds | null;
+  // Smart guides matched by the current move, in design coordinates
+  guides?: SnapGuide[];
+  // Points of a text path being drawn, in design coordinates
+  pathPreview?: PathPoint[];
+  // Timestamp driving the animated selection border
+  time?: number;
+  // Canvas pixels per screen pixel, so handles keep a fixed on-screen size
+  overlayScale?: number;
+}
+
+// What masked layers reveal: the design's background and base image
+export interface Backdrop {
+  // Design size in output pixels
+  width: number;
+  height: number;
+  // Transform the design is drawn with
+  transform: DOMMatrix;
+  draw: (ctx: Canvas2DContext) => void;
+}
+
+export function getSortedLayers(layers: TextLayer[]): TextLayer[] {
+  return [...layers].sort((a, b) => a.zIndex - b.zIndex);
+}
+
+function isLayerRendered(layer: TextLayer): boolean {
+  return layer.opacity > 0 && layer.isVisible;
+}
+
+// Canvas composite operation for a blend mode; the CSS blend modes share their names
+export function getCompositeOperation(blendMode: BlendMode | undefined): GlobalCompositeOperation {
+  return !blendMode || blendMode === 'normal' ? 'source-over' : blendMode;
+}
+
+// Gradient line for an angled linear gradient: it runs through the centre
+// and spans the canvas so both end colours touch the corners
+export function getGradientLine(angleDegrees: number, width: number, height: number) {
+  const angle = (angleDegrees * Math.PI) / 180;
+  const halfLength = (Math.abs(width * Math.cos(angle)) + Math.abs(height * Math.sin(angle))) / 2;
+  const dx = Math.cos(angle) * halfLength;
+  const dy = Math.sin(angle) * halfLength;
+  return {
+    x1: width / 2 - dx,
+    y1: height / 2 - dy,
+    x2: width / 2 + dx,
+    y2: height / 2 + dy,
+  };
+}
+
+function drawBackground(ctx: Canvas2DContext, background: CanvasBackground, width: number, height: number) {
+  if (background.type === 'transparent') return;
+
+  if (background.type === 'solid') {
+    ctx.fillStyle = background.color;
+  } else {
+    const line = getGradientLine(background.angle, width, height);
+    const gradient = ctx.createLinearGradient(line.x1, line.y1, line.x2, line.y2);
+    gradient.addColorStop(0, background.from);
+    gradient.addColorStop(1, background.to);
+    ctx.fillStyle = gradient;
+  }
+  ctx.fillRect(0, 0, width, height);
+}
+
+function drawGrid(ctx: Canvas2DContext, width: number, height: number, gridSize: number) {
+  ctx.save();
+  ctx.strokeStyle = '#e5e7eb';
+  ctx.lineWidth = 1;
+  ctx.globalAlpha = 0.5;
+
+  for (let x = 0; x <= width; x += gridSize) {
+    ctx.beginPath();
+    ctx.moveTo(x, 0);
+    ctx.lineTo(x, height);
+    ctx.stroke();
+  }
+  for (let y = 0; y <= height; y += gridSize) {
+    ctx.beginPath();
+    ctx.moveTo(0, y);
+    ctx.lineTo(width, y);
+    ctx.stroke();
+  }
+  ctx.restore();
+}
+
+function drawTextBox(ctx: Canvas2DContext, layer: TextLayer, layout: TextLayout, scale: number) {
+  const hasBackground = !!layer.backgroundColor && layer.backgroundColor !== 'transparent';
+  const borderWidth = (layer.borderWidth || 0) * scale;
+  if (!hasBackground && borderWidth <= 0) return;
+
+  const padding = layer.fontSize * scale * 0.2;
+  const boxX = layout.left - padding;
+  const boxY = layout.top - padding;
+  const boxWidth = layout.width + padding * 2;
+  const boxHeight = layout.height + padding * 2;
+
+  if (hasBackground) {
+    ctx.fillStyle = layer.backgroundColor!;
+    ctx.fillRect(boxX, boxY, boxWidth, boxHeight);
+  }
+  if (borderWidth > 0) {
+    ctx.strokeStyle = layer.borderColor || '#000000';
+    ctx.lineWidth = borderWidth;
+    ctx.strokeRect(boxX, boxY, boxWidth, boxHeight);
+  }
+}
+
+// Adds a text path to the context's current path, in output pixels
+function traceTextPath(ctx: Canvas2DContext, path: TextPath, scale: number) {
+  if (path.type === 'arc') {
+    const radius = Math.max(MIN_ARC_RADIUS, path.radius) * scale;
+    ctx.moveTo(radius, 0);
+    ctx.arc(0, 0, radius, 0, Math.PI * 2);
+    return;
+  }
+  const [first] = path.points;
+  if (!first) return;
+  ctx.moveTo(first.x * scale, first.y * scale);
+  getCurveSegments(path.points).forEach(([, c1, c2, end]) => {
+    ctx.bezierCurveTo(c1.x * scale, c1.y * scale, c2.x * scale, c2.y * scale, end.x * scale, end.y * scale);
+  });
+}
+
+// Faint outline of the path a selected layer's text follows
+function drawTextPathGuide(ctx: Canvas2DContext, path: TextPath, scale: number, overlayScale: number) {
+  ctx.save();
+  ctx.globalAlpha = 1;
+  ctx.globalCompositeOperation = 'source-over';
+  ctx.shadowColor = 'transparent';
+  ctx.strokeStyle = 'rgba(59, 130, 246, 0.5)';
+  ctx.lineWidth = overlayScale;
+  ctx.beginPath();
+  traceTextPath(ctx, path, scale);
+  ctx.stroke();
+  ctx.restore();
+}
+
+// A curve being drawn on the canvas, with its points
+function drawPathPreview(ctx: Canvas2DContext, points: PathPoint[], scale: number, overlayScale: number) {
+  ctx.save();
+  ctx.strokeStyle = '#3b82f6';
+  ctx.lineWidth = 2 * overlayScale;
+  ctx.beginPath();
+  traceTextPath(ctx, { type: 'curve', points }, scale);
+  ctx.stroke();
+
+  ctx.fillStyle = '#ffffff';
+  ctx.lineWidth = 1.5 * overlayScale;
+  points.forEach(point => {
+    ctx.beginPath();
+    ctx.arc(point.x * scale, point.y * scale, (HANDLE_SIZE / 2) * overlayScale, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.stroke();
+  });
+  ctx.restore();
+}
+
+function drawSelection(ctx: Canvas2DContext, layout: TextLayout, time: number, overlayScale: number, showHandles: boolean) {
+  const frame = getSelectionFrame(layout, overlayScale);
+
+  ctx.save();
+  // Keep the overlay fully visible on translucent and blended layers
+  ctx.globalAlpha = 1;
+  ctx.globalCompositeOperation = 'source-over';
+  ctx.strokeStyle = '#3b82f6';
+  ctx.lineWidth = 2 * overlayScale;
+  ctx.setLineDash([5 * overlayScale, 5 * overlayScale]);
+  // Subtle animation on the dashed border
+  ctx.lineDashOffset = Math.sin(time * 0.005) * 5 * overlayScale;
+  ctx.strokeRect(frame.left, frame.top, frame.width, frame.height);
+
+  if (!showHandles) {
+    ctx.restore();
+    return;
+  }
+
+  // Transform handles
+  ctx.setLineDash([]);
+  ctx.lineWidth = 1.5 * overlayScale;
+  ctx.fillStyle = '#ffffff';
+  const size = HANDLE_SIZE * overlayScale;
+
+  frame.handles.forEach(point => {
+    if (point.handle === 'rotate') {
+      ctx.beginPath();
+      ctx.moveTo(point.x, frame.top);
+      ctx.lineTo(point.x, point.y);
+      ctx.stroke();
+      ctx.beginPath();
+      ctx.arc(point.x, point.y, size / 2 + overlayScale, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.stroke();
+    } else {
+      ctx.fillRect(point.x - size / 2, point.y - size / 2, size, size);
+      ctx.strokeRect(point.x - size / 2, point.y - size / 2, size, size);
+    }
+  });
+  ctx.restore();
+}
+
+// Draws one styled run left-aligned at `x`, with letter spacing and
+// decorations. Solid fills paint in the run's colour; gradient, pattern and
+// stroke styles are set by the caller.
+function drawRun(
+  ctx: Canvas2DContext,
+  run: TextRun,
+  x: number,
+  y: number,
+  letterSpacing: number,
+  scale: number,
+  paint: 'fill' | 'stroke',
+  useRunColor: boolean
+) {
+  ctx.font = run.font;
+  if (useRunColor) {
+    ctx.fillStyle = run.style.color;
+  }
+  const drawText = (text: string, textX: number) =>
+    paint === 'fill' ? ctx.fillText(text, textX, y) : ctx.strokeText(text, textX, y);
+  const drawRect = (rectY: number, height: number) =>
+    paint === 'fill' ? ctx.fillRect(x, rectY, run.width, height) : ctx.strokeRect(x, rectY, run.width, height);
+
+  if (letterSpacing === 0) {
+    drawText(run.text, x);
+  } else if (typeof ctx.letterSpacing === 'string') {
+    ctx.letterSpacing = `${letterSpacing}px`;
+    drawText(run.text, x);
+    ctx.letterSpacing = '0px';
+  } else {
+    // Browsers without canvas letter spacing get one character at a time
+    let charX = x;
+    Array.from(run.text).forEach(char => {
+      drawText(char, charX);
+      charX += ctx.measureText(char).width + letterSpacing;
+    });
+  }
+
+  // Decoration position and thickness follow the run's font size
+  const size = run.style.fontSize * scale;
+  const thickness = Math.max(1, size / 16);
+  if (run.style.underline) {
+    drawRect(y + size * 0.1, thickness);
+  }
+  if (run.style.strikethrough) {
+    drawRect(y - size * 0.3, thickness);
+  }
+}
+
+// Canvas style for a gradient or pattern fill spanning the text box; null
+// for solid fills and for patterns whose image hasn't loaded yet. With a
+// glyph, the style is for drawing in that glyph's frame but still spans the box.
+function createFillStyle(
+  ctx: Canvas2DContext,
+  fill: TextFill | undefined,
+  layout: TextLayout,
+  scale: number,
+  glyph?: PathGlyph
+): CanvasGradient | CanvasPattern | null {
+  if (!fill || fill.type === 'solid') return null;
+
+  // Layer-local point -> the frame being drawn in
+  const toFrame = (x: number, y: number) => {
+    if (!glyph) return { x, y };
+    const dx = x - glyph.x;
+    const dy = y - glyph.y;
+    return {
+      x: dx * Math.cos(glyph.angle) + dy * Math.sin(glyph.angle),
+      y: -dx * Math.sin(glyph.angle) + dy * Math.cos(glyph.angle),
+    };
+  };
+
+  if (fill.type === 'image') {
+    const image = fill.image ? getFillImage(fill.image) : null;
+    const pattern = image ? ctx.createPattern(image, 'repeat') : null;
+    if (!pattern) return null;
+    // Tiles start at the box corner and scale with the layer
+    const frame = glyph
+      ? new DOMMatrix().rotate((-glyph.angle * 180) / Math.PI).translate(-glyph.x, -glyph.y)
+      : new DOMMatrix();
+    pattern.setTransform(frame.translate(layout.left, layout.top).scale(fill.scale * scale));
+    return pattern;
+  }
+
+  let gradient: CanvasGradient;
+  if (fill.type === 'linear') {
+    const line = getGradientLine(fill.angle, layout.width, layout.height);
+    const start = toFrame(layout.left + line.x1, layout.top + line.y1);
+    const end = toFrame(layout.left + line.x2, layout.top + line.y2);
+    gradient = ctx.createLinearGradient(start.x, start.y, end.x, end.y);
+  } else {
+    const center = toFrame(layout.left + layout.width / 2, layout.top + layout.height / 2);
+    gradient = ctx.createRadialGradient(center.x, center.y, 0, center.x, center.y, Math.hypot(layout.width, layout.height) / 2);
+  }
+  getSortedStops(fill.stops).forEach(stop => {
+    gradient.addColorStop(Math.min(1, Math.max(0, stop.offset)), stop.color);
+  });
+  return gradient;
+}
+
+// Draws text on a path one character at a time, each in its own frame
+function drawPathGlyphs(
+  ctx: Canvas2DContext,
+  layer: TextLayer,
+  layout: TextLayout,
+  glyphs: PathGlyph[],
+  scale: number,
+  paint: 'fill' | 'stroke'
+) {
+  glyphs.forEach(glyph => {
+    ctx.save();
+    ctx.translate(glyph.x, glyph.y);
+    ctx.rotate(glyph.angle);
+    const fillStyle = paint === 'fill' ? createFillStyle(ctx, layer.fill, layout, scale, glyph) : null;
+    if (fillStyle) {
+      ctx.fillStyle = fillStyle;
+    }
+    // Spacing is already in the glyph's advance
+    const run: TextRun = { text: glyph.text, x: 0, width: glyph.width, font: glyph.font, style: glyph.style };
+    drawRun(ctx, run, -glyph.width / 2, 0, 0, scale, paint, paint === 'fill' && !fillStyle);
+    ctx.restore();
+  });
+}
+
+// Calls `fn` for each run of straight text at its aligned position
+function eachLineRun(layer: TextLayer, layout: TextLayout, fn: (run: TextRun, x: number, y: number) => void) {
+  layout.lines.forEach(line => {
+    const lineX = getLineOffset(layer.textAlign, line.width);
+    line.runs.forEach(run => fn(run, lineX + run.x, line.y));
+  });
+}
+
+// Strokes the glyphs at twice the outline width; the fill covers the inner half
+function strokeGlyphs(ctx: Canvas2DContext, layer: TextLayer, layout: TextLayout, scale: number) {
+  ctx.save();
+  ctx.strokeStyle = layer.strokeColor || '#000000';
+  ctx.lineWidth = (layer.strokeWidth || 0) * scale * 2;
+  ctx.lineJoin = layer.strokeJoin || 'round';
+  if (layout.glyphs) {
+    drawPathGlyphs(ctx, layer, layout, layout.glyphs, scale, 'stroke');
+  } else {
+    eachLineRun(layer, layout, (run, x, y) => drawRun(ctx, run, x, y, layout.letterSpacing, scale, 'stroke', false));
+  }
+  ctx.restore();
+}
+
+function fillGlyphs(ctx: Canvas2DContext, layer: TextLayer, layout: TextLayout, scale: number) {
+  if (layout.glyphs) {
+    drawPathGlyphs(ctx, layer, layout, layout.glyphs, scale, 'fill');
+    return;
+  }
+  const fillStyle = createFillStyle(ctx, layer.fill, layout, scale);
+  if (fillStyle) {
+    ctx.fillStyle = fillStyle;
+  }
+  eachLineRun(layer, layout, (run, x, y) => drawRun(ctx, run, x, y, layout.letterSpacing, scale, 'fill', !fillStyle));
+}
+
+// Paints a layer's glyphs: the outline first, then the fill over its inner half
+function drawGlyphs(ctx: Canvas2DContext, layer: TextLayer, layout: TextLayout, scale: number) {
+  if ((layer.strokeWidth || 0) > 0) {
+    strokeGlyphs(ctx, layer, layout, scale);
+    // The outline already cast the shadow; the fill would only darken it
+    ctx.shadowColor = 'transparent';
+  }
+  fillGlyphs(ctx, layer, layout, scale);
+}
+
+// Block a box knockout cuts the text out of, in the layer's local frame
+function getKnockoutBox(layout: TextLayout, mask: Extract<TextMask, { type: 'knockout' }>, scale: number) {
+  const padding = mask.padding * scale;
+  return {
+    left: layout.left - padding,
+    top: layout.top - padding,
+    width: layout.width + padding * 2,
+    height: layout.height + padding * 2,
+  };
+}
+
+// Draws a masked layer onto a cleared group surface in the layer's frame.
+// Glyph shapes are filled solid, since only their coverage matters.
+function drawMaskedLayer(
+  group: Canvas2DContext,
+  layer: TextLayer,
+  layout: TextLayout,
+  scale: number,
+  mask: TextMask,
+  backdrop: Backdrop
+) {
+  const shapeLayer = { ...layer, fill: undefined };
+  const hasOutline = (layer.strokeWidth || 0) > 0;
+
+  group.save();
+  if (mask.type === 'image') {
+    // The backdrop shows only inside the glyphs; outline and box go beneath
+    fillGlyphs(group, shapeLayer, layout, scale);
+    group.save();
+    group.globalCompositeOperation = 'source-in';
+    group.setTransform(backdrop.transform);
+    backdrop.draw(group);
+    group.restore();
+
+    group.globalCompositeOperation = 'destination-over';
+    if (hasOutline) {
+      strokeGlyphs(group, layer, layout, scale);
+    }
+    drawTextBox(group, layer, layout, scale);
+  } else {
+    // The block replaces the background box; the outline widens the cut
+    group.fillStyle = mask.color;
+    if (mask.extent === 'canvas') {
+      group.save();
+      group.setTransform(backdrop.transform);
+      group.fillRect(0, 0, backdrop.width, backdrop.height);
+      group.restore();
+    } else {
+      const box = getKnockoutBox(layout, mask, scale);
+      group.fillRect(box.left, box.top, box.width, box.height);
+    }
+
+    group.globalCompositeOperation = 'destination-out';
+    if (hasOutline) {
+      strokeGlyphs(group, { ...layer, strokeColor: '#000000' }, layout, scale);
+    }
+    fillGlyphs(group, shapeLayer, layout, scale);
+  }
+  group.restore();
+}
+
+let groupCanvas: HTMLCanvasElement | OffscreenCanvas | null = null;
+
+// Cleared scratch surface matching `ctx`, for drawing a layer at full
+// opacity and compositing it once, so a translucent outline doesn't show
+// through its fill
+function getGroupContext(ctx: Canvas2DContext): Canvas2DContext | null {
+  const { width, height } = ctx.canvas;
+  if (!groupCanvas) {
+    groupCanvas = typeof OffscreenCanvas !== 'undefined'
+      ? new OffscreenCanvas(width, height)
+      : document.createElement('canvas');
+  }
+  if (groupCanvas.width !== width || groupCanvas.height !== height) {
+    groupCanvas.width = width;
+    groupCanvas.height = height;
+  }
+
+  const group = groupCanvas.getContext('2d') as Canvas2DContext | null;
+  if (!group) return null;
+  group.setTransform(1, 0, 0, 1, 0, 0);
+  group.clearRect(0, 0, width, height);
+  group.setTransform(ctx.getTransform());
+  group.textAlign = 'left';
+  group.textBaseline = 'alphabetic';
+  return group;
+}
+
+// Draws one layer. Masked layers need the backdrop they reveal.
+export function renderLayer(ctx: Canvas2DContext, layer: TextLayer, options: RenderOptions, backdrop?: Backdrop) {
+  const { scale } = options;
+
+  ctx.save();
+  ctx.globalAlpha = layer.opacity;
+  // Blends the layer with what is beneath it
+  ctx.globalCompositeOperation = getCompositeOperation(layer.blendMode);
+  // Runs are placed individually, so alignment is applied per line
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'alphabetic';
+
+  const layout = layoutText(ctx, layer, scale);
+
+  // Everything is drawn in the layer's local frame so it follows rotation
+  ctx.translate(layer.x * scale, layer.y * scale);
+  if (layer.rotation !== 0) {
+    ctx.rotate((layer.rotation * Math.PI) / 180);
+  }
+
+  // Outlined translucent text is drawn opaque on its own and faded as a
+  // whole. Blended layers are also composited as a whole, as in CSS, so the
+  // fill doesn't blend with its own outline or box. Masks need a surface to
+  // cut the glyphs against.
+  const mask = layer.mask && backdrop ? layer.mask : null;
+  const isBlended = ctx.globalCompositeOperation !== 'source-over';
+  const group = mask || isBlended || (layer.opacity < 1 && (layer.strokeWidth || 0) > 0) ? getGroupContext(ctx) : null;
+  const glyphCtx = group || ctx;
+  const applyShadow = (target: Canvas2DContext) => {
+    if (layer.shadowBlur || layer.shadowOffsetX || layer.shadowOffsetY) {
+      target.shadowColor = layer.shadowColor || '#000000';
+      target.shadowBlur = (layer.shadowBlur || 0) * scale;
+      target.shadowOffsetX = (layer.shadowOffsetX || 0) * scale;
+      target.shadowOffsetY = (layer.shadowOffsetY || 0) * scale;
+    }
+  };
+
+  if (mask && group) {
+    drawMaskedLayer(group, layer, layout, scale, mask, backdrop!);
+  } else {
+    drawTextBox(glyphCtx, layer, layout, scale);
+
+    // Shadow applies to the glyphs only, not to the background box
+    glyphCtx.save();
+    applyShadow(glyphCtx);
+    drawGlyphs(glyphCtx, layer, layout, scale);
+    glyphCtx.restore();
+  }
+
+  if (group) {
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    // A masked layer casts its shadow as one shape
+    if (mask) {
+      applyShadow(ctx);
+    }
+    ctx.drawImage(group.canvas, 0, 0);
+    ctx.restore();
+  }
+
+  const selectedLayerIds = options.selectedLayerIds || [];
+  if (selectedLayerIds.includes(layer.id)) {
+    const path = getLayerPath(layer);
+    if (path && selectedLayerIds.length === 1) {
+      drawTextPathGuide(ctx, path, scale, options.overlayScale || 1);
+    }
+    // Handles transform a single layer, so groups only get the frame
+    drawSelection(ctx, layout, options.time || 0, options.overlayScale || 1, selectedLayerIds.length === 1);
+  }
+
+  ctx.restore();
+}
+
+function drawMarquee(ctx: Canvas2DContext, marquee: Bounds, scale: number, overlayScale: number) {
+  const x = marquee.left * scale;
+  const y = marquee.top * scale;
+  const width = (marquee.right - marquee.left) * scale;
+  const height = (marquee.bottom - marquee.top) * scale;
+
+  ctx.save();
+  ctx.fillStyle = 'rgba(59, 130, 246, 0.1)';
+  ctx.fillRect(x, y, width, height);
+  ctx.strokeStyle = '#3b82f6';
+  ctx.lineWidth = overlayScale;
+  ctx.strokeRect(x, y, width, height);
+  ctx.restore();
+}
+
+function drawGuides(ctx: Canvas2DContext, guides: SnapGuide[], scale: number, overlayScale: number) {
+  ctx.save();
+  ctx.strokeStyle = '#ec4899';
+  ctx.lineWidth = overlayScale;
+
+  guides.forEach(guide => {
+    const position = guide.position * scale;
+    ctx.beginPath();
+    if (guide.axis === 'x') {
+      ctx.moveTo(position, guide.start * scale);
+      ctx.lineTo(position, guide.end * scale);
+    } else {
+      ctx.moveTo(guide.start * scale, position);
+      ctx.lineTo(guide.end * scale, position);
+    }
+    ctx.stroke();
+  });
+  ctx.restore();
+}
+
+function drawRulerGuides(ctx: Canvas2DContext, guides: Guide[], width: number, height: number, scale: number, overlayScale: number) {
+  ctx.save();
+  ctx.strokeStyle = '#06b6d4';
+  ctx.lineWidth = overlayScale;
+
+  guides.forEach(guide => {
+    const position = guide.position * scale;
+    ctx.beginPath();
+    if (guide.axis === 'x') {
+      ctx.moveTo(position, 0);
+      ctx.lineTo(position, height);
+    } else {
+      ctx.moveTo(0, position);
+      ctx.lineTo(width, position);
+    }
+    ctx.stroke();
+  });
+  ctx.restore();
+}
+
+// Draws the full composition. Shared by the editor preview and export so
+// both produce identical pixels; it touches nothing but the given context.
+export function renderComposition(ctx: Canvas2DContext, state: CanvasState, options: RenderOptions) {
+  const { scale } = options;
+  const width = state.imageWidth * scale;
+  const height = state.imageHeight * scale;
+
+  ctx.clearRect(0, 0, width, height);
+
+  if (options.matte) {
+    ctx.fillStyle = options.matte;
+    ctx.fillRect(0, 0, width, height);
+  }
+
+  const backdrop: Backdrop = {
+    width,
+    height,
+    transform: ctx.getTransform(),
+    draw: target => {
+      if (state.background) {
+        drawBackground(target, state.background, width, height);
+      }
+      if (options.image) {
+        target.drawImage(options.image, 0, 0, width, height);
+      }
+    },
+  };
+  backdrop.draw(ctx);
+
+  if (options.showGrid) {
+    drawGrid(ctx, width, height, (options.gridSize || 20) * scale);
+  }
+
+  getSortedLayers(state.textLayers)
+    .filter(isLayerRendered)
+    .forEach(layer => renderLayer(ctx, layer, options, backdrop));
+
+  if (options.showGuides && state.guides && state.guides.length > 0) {
+    drawRulerGuides(ctx, state.guides, width, height, scale, options.overlayScale || 1);
+  }
+
+  if (options.guides && options.guides.length > 0) {
+    drawGuides(ctx, options.guides, scale, options.overlayScale || 1);
+  }
+
+  if (options.marquee) {
+    drawMarquee(ctx, options.marquee, scale, options.overlayScale || 1);
+  }
+
+  if (options.pathPreview && options.pathPreview.length > 0) {
+    drawPathPreview(ctx, options.pathPreview, scale, options.overlayScale || 1);
+  }
+}
+
+// Returns the topmost rendered layer under a point in design coordinates
+export function getLayerAtPoint(ctx: Canvas2DContext, layers: TextLayer[], x: number, y: number): TextLayer | null {
+  const sortedLayers = getSortedLayers(layers).reverse();
+
+  for (const layer of sortedLayers) {
+    if (!isLayerRendered(layer)) continue;
+
+    ctx.font = getFontString(layer);
+    const layout = layoutText(ctx, layer);
+
+    // Bring the point into the layer's local (unrotated) frame
+    const angle = (-layer.rotation * Math.PI) / 180;
+    const dx = x - layer.x;
+    const dy = y - layer.y;
+    const localX = dx * Math.cos(angle) - dy * Math.sin(angle);
+    const localY = dx * Math.sin(angle) + dy * Math.cos(angle);
+
+    // Box knockouts are solid across their block
+    if (layer.mask?.type === 'knockout' && layer.mask.extent === 'box') {
+      const box = getKnockoutBox(layout, layer.mask, 1);
+      if (localX >= box.left && localX <= box.left + box.width && localY >= box.top && localY <= box.top + box.height) {
+        return layer;
+      }
+    } else if (isPointInLayout(layout, localX, localY)) {
+      return layer;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,38 @@
+import { CanvasState, TextLayer } from '@/types';
+import { Canvas2DContext } from '@/lib/text';
+import { Bounds, getLayerBounds } from '@/lib/transform';
+
+export function getSelectedLayers(state: CanvasState): TextLayer[] {
+  return state.selectedLayerIds
+    .map(id => state.textLayers.find(layer => layer.id === id))
+    .filter((layer): layer is TextLayer => !!layer);
+}
+
+// Adds the layer to the selection, or removes it if already selected
+export function toggleLayerSelection(selectedLayerIds: string[], layerId: string): string[] {
+  return selectedLayerIds.includes(layerId)
+    ? selectedLayerIds.filter(id => id !== layerId)
+    : [...selectedLayerIds, layerId];
+}
+
+// Normalises a drag from one point to another into bounds
+export function getMarqueeBounds(start: { x: number; y: number }, end: { x: number; y: number }): Bounds {
+  return {
+    left: Math.min(start.x, end.x),
+    top: Math.min(start.y, end.y),
+    right: Math.max(start.x, end.x),
+    bottom: Math.max(start.y, end.y),
+  };
+}
+
+// Visible layers whose bounds touch the marquee, bottom to top
+export function getLayersInBounds(ctx: Canvas2DContext, layers: TextLayer[], bounds: Bounds): TextLayer[] {
+  return [...layers]
+    .sort((a, b) => a.zIndex - b.zIndex)
+    .filter(layer => {
+      if (!layer.isVisible) return false;
+      const box = getLayerBounds(ctx, layer);
+      return box.left <= bounds.right && box.right >= bounds.left &&
+        box.top <= bounds.bottom && box.bottom >= bounds.top;
+    });
+}
@@ -0,0 +1,152 @@
+import { Guide, TextLayer } from '@/types';
+import { Canvas2DContext, getFontString, layoutText } from '@/lib/text';
+import { Bounds, getLayerBounds } from '@/lib/transform';
+import { getLayersBounds } from '@/lib/align';
+import { getLayerPath } from '@/lib/textPath';
+
+/*
+ * Smart guides. While layers move, their bounds (edges, centres and the
+ * baselines of unrotated text) snap to the same features of the other
+ * layers, to the canvas edges and centre and to ruler guides. Matches are
+ * reported as guide lines for the editor to draw.
+ */
+
+// Default snap distance, in screen pixels
+export const DEFAULT_SNAP_THRESHOLD = 6;
+// Snap distances offered in the toolbar; 0 turns smart guides off
+export const SNAP_THRESHOLD_OPTIONS = [0, 3, 6, 10, 16];
+
+// A guide line: vertical at x = `position` for axis 'x', horizontal at y = `position` for 'y'
+export interface SnapGuide {
+  axis: 'x' | 'y';
+  position: number;
+  start: number;
+  end: number;
+}
+
+// What moving layers can snap to; omitted targets are skipped
+export interface SnapTargets {
+  layers?: TextLayer[];
+  // Canvas size, for its edges and centre
+  canvas?: { width: number; height: number };
+  guides?: Guide[];
+}
+
+export interface SnapResult {
+  dx: number;
+  dy: number;
+  guides: SnapGuide[];
+}
+
+// A snappable feature: its position and its extent along the other axis
+interface SnapLine {
+  value: number;
+  start: number;
+  end: number;
+}
+
+// Baselines of unrotated straight text, in design space
+function getBaselines(ctx: Canvas2DContext, layer: TextLayer): number[] {
+  if (layer.rotation % 360 !== 0 || getLayerPath(layer)) return [];
+
+  ctx.font = getFontString(layer);
+  return layoutText(ctx, layer).lines.map(line => layer.y + line.y);
+}
+
+function getVerticalLines(box: Bounds): SnapLine[] {
+  return [box.left, (box.left + box.right) / 2, box.right].map(value => ({ value, start: box.top, end: box.bottom }));
+}
+
+function getHorizontalLines(box: Bounds, baselines: number[] = []): SnapLine[] {
+  return [box.top, (box.top + box.bottom) / 2, box.bottom, ...baselines]
+    .map(value => ({ value, start: box.left, end: box.right }));
+}
+
+// Finds the smallest offset within `threshold` that lines a moving feature up with a target
+function findSnap(moving: SnapLine[], targets: SnapLine[], threshold: number): number | null {
+  let best: number | null = null;
+  moving.forEach(line => {
+    targets.forEach(target => {
+      const offset = target.value - line.value;
+      if (Math.abs(offset) <= threshold && (best === null || Math.abs(offset) < Math.abs(best))) {
+        best = offset;
+      }
+    });
+  });
+  return best;
+}
+
+// Guides for every target that lines up with a moving feature after snapping;
+// matches at the same position merge into one line
+function collectGuides(axis: 'x' | 'y', moving: SnapLine[], targets: SnapLine[], offset: number): SnapGuide[] {
+  const guides: SnapGuide[] = [];
+  moving.forEach(line => {
+    const value = line.value + offset;
+    targets.forEach(target => {
+      if (Math.abs(target.value - value) > 0.5) return;
+
+      const start = Math.min(line.start, target.start);
+      const end = Math.max(line.end, target.end);
+      const existing = guides.find(guide => Math.abs(guide.position - value) <= 0.5);
+      if (existing) {
+        existing.start = Math.min(existing.start, start);
+        existing.end = Math.max(existing.end, end);
+      } else {
+        guides.push({ axis, position: value, start, end });
+      }
+    });
+  });
+  return guides;
+}
+
+// Snaps `moving` (already at its unsnapped position) to `targets`.
+// `threshold` is in design pixels.
+export function snapLayers(
+  ctx: Canvas2DContext,
+  moving: TextLayer[],
+  targets: SnapTargets,
+  threshold: number
+): SnapResult {
+  const box = getLayersBounds(ctx, moving);
+  if (!box) return { dx: 0, dy: 0, guides: [] };
+
+  const targetsX: SnapLine[] = [];
+  const targetsY: SnapLine[] = [];
+  if (targets.canvas) {
+    const canvasBox = { left: 0, top: 0, right: targets.canvas.width, bottom: targets.canvas.height };
+    targetsX.push(...getVerticalLines(canvasBox));
+    targetsY.push(...getHorizontalLines(canvasBox));
+  }
+  (targets.layers || [])
+    .filter(layer => layer.isVisible)
+    .forEach(layer => {
+      const bounds = getLayerBounds(ctx, layer);
+      targetsX.push(...getVerticalLines(bounds));
+      targetsY.push(...getHorizontalLines(bounds, getBaselines(ctx, layer)));
+    });
+  // Ruler guides are drawn full length already, so a match only spans the moving layers
+  (targets.guides || []).forEach(guide => {
+    const line = { value: guide.position, start: Infinity, end: -Infinity };
+    (guide.axis === 'x' ? targetsX : targetsY).push(line);
+  });
+
+  const baselines = moving.flatMap(layer => getBaselines(ctx, layer));
+  const movingX = getVerticalLines(box);
+  const movingY = getHorizontalLines(box, baselines);
+
+  const dx = findSnap(movingX, targetsX, threshold) ?? 0;
+  const dy = findSnap(movingY, targetsY, threshold) ?? 0;
+
+  // Guides are measured against the snapped position
+  const shift = (lines: SnapLine[], offset: number) =>
+    lines.map(line => ({ ...line, start: line.start + offset, end: line.end + offset }));
+
+  return {
+    dx,
+    dy,
+    guides: [
+      ...collectGuides('x', shift(movingX, dy), targetsX, dx),
+      ...collectGuides('y', shift(movingY, dx), targetsY, dy),
+    ],
+  };
+}
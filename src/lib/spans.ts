@@ -0,0 +1,180 @@
+import { TextLayer, TextSpan, TextStyle } from '@/types';
+
+/*
+ * Rich text. A layer's text is stored as spans: runs that can override the
+ * layer's font, weight, italic, colour, size and decorations. `text` always
+ * holds their concatenation, and offsets below are character offsets into it.
+ */
+
+// A layer style with every override resolved
+export type ResolvedTextStyle = Required<TextStyle>;
+
+// Characters selected in one layer's text, for styling part of it
+export interface TextRange {
+  layerId: string;
+  start: number;
+  end: number;
+}
+
+export const SPAN_STYLE_KEYS: (keyof TextStyle)[] = [
+  'fontFamily',
+  'fontWeight',
+  'fontStyle',
+  'color',
+  'fontSize',
+  'underline',
+  'strikethrough',
+];
+
+// Style keys that change glyph sizes, as opposed to colour and decorations
+const METRIC_STYLE_KEYS: (keyof TextStyle)[] = ['fontFamily', 'fontWeight', 'fontStyle', 'fontSize'];
+
+// Layers saved before spans existed are one plain run
+export function getLayerSpans(layer: TextLayer): TextSpan[] {
+  return layer.spans && layer.spans.length > 0 ? layer.spans : [{ text: layer.text }];
+}
+
+export function getSpansText(spans: TextSpan[]): string {
+  return spans.map(span => span.text).join('');
+}
+
+export function resolveSpanStyle(layer: TextLayer, style: TextStyle): ResolvedTextStyle {
+  return {
+    fontFamily: style.fontFamily ?? layer.fontFamily,
+    fontWeight: style.fontWeight ?? layer.fontWeight,
+    fontStyle: style.fontStyle ?? layer.fontStyle ?? 'normal',
+    color: style.color ?? layer.color,
+    fontSize: style.fontSize ?? layer.fontSize,
+    underline: style.underline ?? layer.underline ?? false,
+    strikethrough: style.strikethrough ?? layer.strikethrough ?? false,
+  };
+}
+
+function hasSameStyle(a: TextStyle, b: TextStyle): boolean {
+  return SPAN_STYLE_KEYS.every(key => a[key] === b[key]);
+}
+
+// Merges neighbouring runs with the same style and drops empty ones. An empty
+// text keeps one run so typing into it picks up its style.
+export function normalizeSpans(spans: TextSpan[]): TextSpan[] {
+  const result: TextSpan[] = [];
+  spans.forEach(span => {
+    if (span.text === '') return;
+    const last = result[result.length - 1];
+    if (last && hasSameStyle(last, span)) {
+      result[result.length - 1] = { ...last, text: last.text + span.text };
+    } else {
+      result.push(span);
+    }
+  });
+  return result.length > 0 ? result : [{ ...spans[0], text: '' }];
+}
+
+// The parts of the runs between `start` and `end`
+function sliceSpans(spans: TextSpan[], start: number, end: number): TextSpan[] {
+  const result: TextSpan[] = [];
+  let position = 0;
+  spans.forEach(span => {
+    const spanStart = position;
+    position += span.text.length;
+    const from = Math.max(start, spanStart);
+    const to = Math.min(end, position);
+    if (to > from) {
+      result.push({ ...span, text: span.text.slice(from - spanStart, to - spanStart) });
+    }
+  });
+  return result;
+}
+
+function withoutStyles(span: TextSpan, keys: (keyof TextStyle)[]): TextSpan {
+  const next = { ...span };
+  keys.forEach(key => delete next[key]);
+  return next;
+}
+
+// Whether some run is measured in a different font from the layer's own, so
+// the text can't be edited through a single-font HTML field laid over it
+export function hasMixedMetrics(layer: TextLayer): boolean {
+  const base = resolveSpanStyle(layer, {});
+  return getLayerSpans(layer).some(span => {
+    const style = resolveSpanStyle(layer, span);
+    return METRIC_STYLE_KEYS.some(key => style[key] !== base[key]);
+  });
+}
+
+// Sets style overrides on the text between `start` and `end`; undefined values clear an override
+export function applySpanStyle(spans: TextSpan[], start: number, end: number, style: TextStyle): TextSpan[] {
+  const total = getSpansText(spans).length;
+  const cleared = SPAN_STYLE_KEYS.filter(key => key in style && style[key] === undefined);
+  const styled = sliceSpans(spans, start, end).map(span => withoutStyles({ ...span, ...style }, cleared));
+
+  return normalizeSpans([
+    ...sliceSpans(spans, 0, start),
+    ...styled,
+    ...sliceSpans(spans, end, total),
+  ]);
+}
+
+// Resolved styles of the runs between `start` and `end`, or of the run at
+// `start` when the range is empty
+export function getRangeStyles(layer: TextLayer, start: number, end: number): ResolvedTextStyle[] {
+  const spans = getLayerSpans(layer);
+  const inRange = sliceSpans(spans, start, Math.max(end, start + 1));
+  const source = inRange.length > 0 ? inRange : spans.slice(-1);
+  return source.map(span => resolveSpanStyle(layer, span));
+}
+
+// Maps edited plain text onto the runs. Text before and after the edit keeps
+// its style; inserted text takes the style of the text it replaced, or of
+// the character before it when nothing was replaced.
+export function replaceSpanText(spans: TextSpan[], text: string): TextSpan[] {
+  const previous = getSpansText(spans);
+  if (previous === text) return spans;
+
+  let prefix = 0;
+  while (prefix < previous.length && prefix < text.length && previous[prefix] === text[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < previous.length - prefix &&
+    suffix < text.length - prefix &&
+    previous[previous.length - 1 - suffix] === text[text.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const removedEnd = previous.length - suffix;
+  const before = sliceSpans(spans, 0, prefix);
+  const after = sliceSpans(spans, removedEnd, previous.length);
+  const styleSource = sliceSpans(spans, prefix, Math.min(prefix + 1, removedEnd))[0]
+    ?? before[before.length - 1]
+    ?? after[0]
+    ?? spans[0];
+
+  return normalizeSpans([
+    ...before,
+    { ...styleSource, text: text.slice(prefix, text.length - suffix) },
+    ...after,
+  ]);
+}
+
+// Applies an edit to a layer while keeping `text` and `spans` in step. New
+// plain text is mapped onto the existing runs, and a layer-wide style change
+// replaces the runs' overrides of the same properties.
+export function applyLayerUpdates(layer: TextLayer, updates: Partial<TextLayer>): TextLayer {
+  if (updates.spans) {
+    const spans = normalizeSpans(updates.spans);
+    return { ...layer, ...updates, spans, text: getSpansText(spans) };
+  }
+
+  let spans = getLayerSpans(layer);
+  if (updates.text !== undefined) {
+    spans = replaceSpanText(spans, updates.text);
+  }
+  const styleKeys = SPAN_STYLE_KEYS.filter(key => key in updates);
+  if (styleKeys.length > 0) {
+    spans = normalizeSpans(spans.map(span => withoutStyles(span, styleKeys)));
+  }
+  return { ...layer, ...updates, spans };
+}
@@ -0,0 +1,300 @@
+import { CanvasState, TextLayer, TextPath } from '@/types';
+import { Canvas2DContext, getFontString, getPathTextStart, layoutText, TextLayout, TextRun } from '@/lib/text';
+import { getGradientLine, getSortedLayers } from '@/lib/render';
+import { getGoogleFontsCssUrl, normalizeFontWeight } from '@/lib/fonts';
+import { getLayerSpans, resolveSpanStyle, ResolvedTextStyle } from '@/lib/spans';
+import { getFillImage, getSortedStops } from '@/lib/fills';
+import { getCurveSegments, getLayerPath, getPathGeometry, MIN_ARC_RADIUS } from '@/lib/textPath';
+
+export interface SvgOptions {
+  // Output size in pixels; the viewBox stays in design coordinates
+  width: number;
+  height: number;
+  // Visible region in design coordinates; defaults to the whole design
+  viewBox?: { x: number; y: number; width: number; height: number };
+  // Embedded base image (data URL)
+  imageHref?: string | null;
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+const TEXT_ANCHORS: Record<TextLayer['textAlign'], string> = {
+  left: 'start',
+  center: 'middle',
+  right: 'end',
+};
+
+function getLayerTransform(layer: TextLayer): string {
+  return layer.rotation !== 0
+    ? `translate(${layer.x} ${layer.y}) rotate(${layer.rotation})`
+    : `translate(${layer.x} ${layer.y})`;
+}
+
+// Attributes for the parts of a run's style that differ from its layer.
+// Decorations can't be switched off inside a decorated element, so they
+// are only ever set on runs. Run colours only apply to solid fills.
+function getRunAttributes(style: ResolvedTextStyle, layer: TextLayer, useRunColor: boolean): string {
+  let attributes = '';
+  if (style.fontFamily !== layer.fontFamily) attributes += ` font-family="${escapeXml(style.fontFamily)}"`;
+  if (style.fontSize !== layer.fontSize) attributes += ` font-size="${style.fontSize}"`;
+  if (normalizeFontWeight(style.fontWeight) !== normalizeFontWeight(layer.fontWeight)) {
+    attributes += ` font-weight="${normalizeFontWeight(style.fontWeight)}"`;
+  }
+  if (style.fontStyle !== (layer.fontStyle ?? 'normal')) attributes += ` font-style="${style.fontStyle}"`;
+  if (useRunColor && style.color !== layer.color) attributes += ` fill="${escapeXml(style.color)}"`;
+
+  const decorations = [style.underline && 'underline', style.strikethrough && 'line-through'].filter(Boolean);
+  if (decorations.length > 0) attributes += ` text-decoration="${decorations.join(' ')}"`;
+  return attributes;
+}
+
+// Paint server for a gradient or pattern fill over the text box, added to
+// `defs`; null for solid fills and patterns whose image isn't loaded
+function buildFill(layer: TextLayer, layout: TextLayout, defs: string[]): string | null {
+  const fill = layer.fill;
+  if (!fill || fill.type === 'solid') return null;
+
+  const id = `fill-${layer.id}`;
+  if (fill.type === 'image') {
+    const image = fill.image ? getFillImage(fill.image) : null;
+    if (!image) return null;
+    const width = image.naturalWidth * fill.scale;
+    const height = image.naturalHeight * fill.scale;
+    defs.push(
+      `<pattern id="${id}" patternUnits="userSpaceOnUse" x="${layout.left}" y="${layout.top}" ` +
+      `width="${width}" height="${height}">` +
+      `<image href="${escapeXml(fill.image)}" width="${width}" height="${height}" preserveAspectRatio="none"/>` +
+      '</pattern>'
+    );
+    return `url(#${id})`;
+  }
+
+  const stops = getSortedStops(fill.stops)
+    .map(stop => `<stop offset="${Math.min(1, Math.max(0, stop.offset))}" stop-color="${escapeXml(stop.color)}"/>`)
+    .join('');
+  if (fill.type === 'linear') {
+    const line = getGradientLine(fill.angle, layout.width, layout.height);
+    defs.push(
+      `<linearGradient id="${id}" gradientUnits="userSpaceOnUse" ` +
+      `x1="${layout.left + line.x1}" y1="${layout.top + line.y1}" ` +
+      `x2="${layout.left + line.x2}" y2="${layout.top + line.y2}">${stops}</linearGradient>`
+    );
+  } else {
+    const radius = Math.hypot(layout.width, layout.height) / 2;
+    defs.push(
+      `<radialGradient id="${id}" gradientUnits="userSpaceOnUse" ` +
+      `cx="${layout.left + layout.width / 2}" cy="${layout.top + layout.height / 2}" r="${radius}">${stops}</radialGradient>`
+    );
+  }
+  return `url(#${id})`;
+}
+
+// Adds a layer's text path to `defs` and returns its id and the start
+// offset of the text. Arcs start opposite the text so centred text doesn't
+// cross the path's start; curves get straight lead-ins at both ends, as the
+// canvas continues text past them.
+function buildTextPath(layer: TextLayer, path: TextPath, textWidth: number, defs: string[]) {
+  const id = `text-path-${layer.id}`;
+  const geometry = getPathGeometry(path);
+  const start = getPathTextStart(path, layer.textAlign, geometry.length, textWidth);
+  let d: string;
+  let offset: number;
+
+  if (path.type === 'arc') {
+    const radius = Math.max(MIN_ARC_RADIUS, path.radius);
+    const from = geometry.pointAt(-geometry.length / 2);
+    const middle = geometry.pointAt(0);
+    const sweep = path.clockwise ? 1 : 0;
+    d = `M ${from.x} ${from.y} A ${radius} ${radius} 0 0 ${sweep} ${middle.x} ${middle.y} ` +
+      `A ${radius} ${radius} 0 0 ${sweep} ${from.x} ${from.y}`;
+    offset = geometry.length / 2 + start;
+  } else {
+    const extension = Math.max(textWidth, 1);
+    const before = geometry.pointAt(-extension);
+    const after = geometry.pointAt(geometry.length + extension);
+    const curves = getCurveSegments(path.points)
+      .map(([, c1, c2, end]) => `C ${c1.x} ${c1.y} ${c2.x} ${c2.y} ${end.x} ${end.y}`)
+      .join(' ');
+    d = `M ${before.x} ${before.y} L ${path.points[0].x} ${path.points[0].y} ${curves} L ${after.x} ${after.y}`;
+    offset = extension + start;
+  }
+
+  defs.push(`<path id="${id}" d="${d}"/>`);
+  return { id, offset };
+}
+
+// Id of the group holding the design's background and base image, which
+// image-masked layers reuse
+const BASE_ID = 'design-base';
+
+function buildLayer(ctx: Canvas2DContext, layer: TextLayer, defs: string[], size: { width: number; height: number }): string {
+  ctx.font = getFontString(layer);
+  const layout = layoutText(ctx, layer);
+  const transform = getLayerTransform(layer);
+  const mask = layer.mask;
+  const parts: string[] = [];
+
+  // Background box and border, matching the canvas renderer's padding.
+  // Knockout blocks replace the box.
+  const hasBackground = !!layer.backgroundColor && layer.backgroundColor !== 'transparent';
+  const borderWidth = layer.borderWidth || 0;
+  if ((hasBackground || borderWidth > 0) && mask?.type !== 'knockout') {
+    const padding = layer.fontSize * 0.2;
+    parts.push(
+      `<rect transform="${transform}" x="${layout.left - padding}" y="${layout.top - padding}" ` +
+      `width="${layout.width + padding * 2}" height="${layout.height + padding * 2}" ` +
+      `fill="${hasBackground ? escapeXml(layer.backgroundColor!) : 'none'}"` +
+      (borderWidth > 0 ? ` stroke="${escapeXml(layer.borderColor || '#000000')}" stroke-width="${borderWidth}"` : '') +
+      '/>'
+    );
+  }
+
+  const fill = buildFill(layer, layout, defs);
+
+  // One tspan per line, with nested tspans for runs styled differently from
+  // the layer. Text on a path is a single line along a textPath.
+  const buildRuns = (runs: TextRun[]) => runs
+    .map(run => {
+      const attributes = getRunAttributes(run.style, layer, !fill);
+      return attributes ? `<tspan${attributes}>${escapeXml(run.text)}</tspan>` : escapeXml(run.text);
+    })
+    .join('');
+  const path = getLayerPath(layer);
+  let tspans: string;
+  if (path) {
+    const runs = layout.lines.flatMap(line => line.runs);
+    const textWidth = runs.reduce((sum, run) => sum + run.width, 0);
+    const textPath = buildTextPath(layer, path, textWidth, defs);
+    tspans = `<textPath href="#${textPath.id}" startOffset="${textPath.offset}">${buildRuns(runs)}</textPath>`;
+  } else {
+    tspans = layout.lines
+      .map(line => `<tspan x="0" y="${line.y}">${buildRuns(line.runs)}</tspan>`)
+      .join('');
+  }
+  // The same text serves as painted glyphs, a clip path or a mask
+  const buildText = (paint: string) =>
+    `<text transform="${transform}" font-family="${escapeXml(layer.fontFamily)}" font-size="${layer.fontSize}" ` +
+    `font-weight="${normalizeFontWeight(layer.fontWeight)}" ` +
+    (layer.fontStyle === 'italic' ? 'font-style="italic" ' : '') +
+    (layer.letterSpacing ? `letter-spacing="${layer.letterSpacing}" ` : '') +
+    paint +
+    // Path offsets already include the alignment
+    `text-anchor="${path ? 'start' : TEXT_ANCHORS[layer.textAlign]}" xml:space="preserve">${tspans}</text>`;
+  const outline = (color: string) => layer.strokeWidth
+    ? `stroke="${escapeXml(color)}" stroke-width="${layer.strokeWidth * 2}" stroke-linejoin="${layer.strokeJoin || 'round'}" `
+    : '';
+
+  // Canvas shadows are offset in canvas space, so the filter wraps the
+  // rotated text instead of being applied inside its transform. Masked
+  // layers cast one shadow for the whole result, as on the canvas.
+  let shadowFilter = '';
+  if (layer.shadowBlur || layer.shadowOffsetX || layer.shadowOffsetY) {
+    const filterId = `shadow-${layer.id}`;
+    defs.push(
+      `<filter id="${filterId}" x="-50%" y="-50%" width="200%" height="200%">` +
+      `<feDropShadow dx="${layer.shadowOffsetX || 0}" dy="${layer.shadowOffsetY || 0}" ` +
+      `stdDeviation="${(layer.shadowBlur || 0) / 2}" flood-color="${escapeXml(layer.shadowColor || '#000000')}"/>` +
+      '</filter>'
+    );
+    shadowFilter = ` filter="url(#${filterId})"`;
+  }
+
+  if (mask?.type === 'image') {
+    // The base shows through the glyphs, over the outline and box
+    const clipId = `mask-${layer.id}`;
+    defs.push(`<clipPath id="${clipId}">${buildText('')}</clipPath>`);
+    if (layer.strokeWidth) {
+      parts.push(buildText(`fill="none" ${outline(layer.strokeColor || '#000000')}`));
+    }
+    parts.push(`<use href="#${BASE_ID}" clip-path="url(#${clipId})"/>`);
+    const content = parts.splice(0).join('');
+    parts.push(shadowFilter ? `<g${shadowFilter}>${content}</g>` : content);
+  } else if (mask?.type === 'knockout') {
+    // A white block with black glyphs masks the block, cutting the text out
+    const block = mask.extent === 'canvas'
+      ? `width="${size.width}" height="${size.height}"`
+      : `transform="${transform}" x="${layout.left - mask.padding}" y="${layout.top - mask.padding}" ` +
+        `width="${layout.width + mask.padding * 2}" height="${layout.height + mask.padding * 2}"`;
+    const maskId = `mask-${layer.id}`;
+    defs.push(
+      `<mask id="${maskId}" maskUnits="userSpaceOnUse" x="0" y="0" width="${size.width}" height="${size.height}">` +
+      `<rect ${block} fill="white"/>${buildText(`fill="black" ${outline('black')}`)}</mask>`
+    );
+    // Filters apply before masks, so the shadow goes on a wrapping group
+    const knockout = `<rect ${block} fill="${escapeXml(mask.color)}" mask="url(#${maskId})"/>`;
+    parts.push(shadowFilter ? `<g${shadowFilter}>${knockout}</g>` : knockout);
+  } else {
+    // The outline sits behind the fill, as on the canvas
+    const text = buildText(
+      `fill="${fill || escapeXml(layer.color)}" ` + (layer.strokeWidth ? `${outline(layer.strokeColor || '#000000')}paint-order="stroke" ` : '')
+    );
+    parts.push(shadowFilter ? `<g${shadowFilter}>${text}</g>` : text);
+  }
+
+  const blend = layer.blendMode && layer.blendMode !== 'normal' ? ` style="mix-blend-mode: ${layer.blendMode}"` : '';
+  return `<g opacity="${layer.opacity}"${blend}>${parts.join('')}</g>`;
+}
+
+// Builds an editable SVG of the composition: the base image is embedded and
+// every layer becomes a real <text> element referencing its web font.
+export function buildSvg(ctx: Canvas2DContext, state: CanvasState, options: SvgOptions): string {
+  const { imageWidth: width, imageHeight: height } = state;
+  const viewBox = options.viewBox || { x: 0, y: 0, width, height };
+  const defs: string[] = [];
+  const body: string[] = [];
+
+  const visibleLayers = getSortedLayers(state.textLayers).filter(layer => layer.opacity > 0 && layer.isVisible);
+
+  const fontsUrl = getGoogleFontsCssUrl(
+    visibleLayers.flatMap(layer => getLayerSpans(layer).map(span => {
+      const style = resolveSpanStyle(layer, span);
+      return { family: style.fontFamily, weight: style.fontWeight, italic: style.fontStyle === 'italic' };
+    }))
+  );
+  if (fontsUrl) {
+    defs.push(`<style>@import url('${escapeXml(fontsUrl)}');</style>`);
+  }
+
+  // Background and base image, grouped so masked layers can reuse them
+  const base: string[] = [];
+  const background = state.background;
+  if (background?.type === 'solid') {
+    base.push(`<rect width="${width}" height="${height}" fill="${escapeXml(background.color)}"/>`);
+  } else if (background?.type === 'gradient') {
+    const line = getGradientLine(background.angle, width, height);
+    defs.push(
+      `<linearGradient id="background-gradient" gradientUnits="userSpaceOnUse" ` +
+      `x1="${line.x1}" y1="${line.y1}" x2="${line.x2}" y2="${line.y2}">` +
+      `<stop offset="0" stop-color="${escapeXml(background.from)}"/>` +
+      `<stop offset="1" stop-color="${escapeXml(background.to)}"/>` +
+      '</linearGradient>'
+    );
+    base.push(`<rect width="${width}" height="${height}" fill="url(#background-gradient)"/>`);
+  }
+
+  if (options.imageHref) {
+    base.push(
+      `<image href="${escapeXml(options.imageHref)}" x="0" y="0" width="${width}" height="${height}" preserveAspectRatio="none"/>`
+    );
+  }
+  body.push(`<g id="${BASE_ID}">${base.join('')}</g>`);
+
+  visibleLayers.forEach(layer => {
+    body.push(buildLayer(ctx, layer, defs, { width, height }));
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${options.width}" height="${options.height}" viewBox="${viewBox.x} ${viewBox.y} ${viewBox.width} ${viewBox.height}">`,
+    defs.length > 0 ? `<defs>${defs.join('')}</defs>` : '',
+    ...body,
+    '</svg>',
+  ].filter(Boolean).join('\n');
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { getFitFontSize, layoutText, withFontSize } from '@/lib/text';
+import { createRecordingContext } from '@/test/canvas';
+import { createLayer } from '@/test/layers';
+
+// The recording context measures 10px per character at 20px
+describe('layoutText', () => {
+  it('measures a single line from its first baseline', () => {
+    const layout = layoutText(createRecordingContext(), createLayer({ text: 'Hello' }));
+
+    expect(layout.lines).toHaveLength(1);
+    expect(layout.width).toBe(50);
+    expect(layout.top).toBe(-20);
+    expect(layout.height).toBe(20);
+    expect(layout.left).toBe(0);
+  });
+
+  it('advances explicit lines by the line height', () => {
+    const layout = layoutText(createRecordingContext(), createLayer({ text: 'One\nThree', lineHeight: 1.5 }));
+
+    expect(layout.lines.map(line => [line.text, line.y])).toEqual([['One', 0], ['Three', 30]]);
+    expect(layout.width).toBe(50);
+    expect(layout.height).toBe(50);
+  });
+
+  it('wraps words to the wrap width and aligns the box', () => {
+    const layout = layoutText(
+      createRecordingContext(),
+      createLayer({ text: 'aaa bbb ccc', wrapWidth: 75, textAlign: 'center' })
+    );
+
+    expect(layout.lines.map(line => line.text)).toEqual(['aaa bbb', 'ccc']);
+    expect(layout.width).toBe(75);
+    expect(layout.left).toBe(-37.5);
+  });
+
+  it('scales every measurement', () => {
+    const layout = layoutText(createRecordingContext(), createLayer({ text: 'Hello' }), 2);
+
+    expect(layout.width).toBe(100);
+    expect(layout.top).toBe(-40);
+  });
+
+  it('adds letter spacing after every character', () => {
+    const layout = layoutText(createRecordingContext(), createLayer({ text: 'abc', letterSpacing: 4 }));
+
+    expect(layout.width).toBe(42);
+  });
+
+  it('sizes lines by their largest run', () => {
+    const layer = createLayer({
+      text: 'ab',
+      spans: [{ text: 'a' }, { text: 'b', fontSize: 40 }],
+    });
+    const layout = layoutText(createRecordingContext(), layer);
+
+    expect(layout.lines[0].runs.map(run => run.width)).toEqual([10, 20]);
+    expect(layout.top).toBe(-40);
+  });
+
+  it('places each character of path text along the path', () => {
+    const layer = createLayer({ text: 'abc', path: { type: 'curve', points: [{ x: 0, y: 0 }, { x: 300, y: 0 }] } });
+    const layout = layoutText(createRecordingContext(), layer);
+
+    expect(layout.glyphs?.map(glyph => glyph.text)).toEqual(['a', 'b', 'c']);
+    layout.glyphs?.forEach((glyph, index) => {
+      expect(glyph.x).toBeCloseTo(5 + index * 10);
+      expect(glyph.y).toBeCloseTo(0);
+      expect(glyph.angle).toBeCloseTo(0);
+    });
+  });
+
+  it('keeps the fixed height of auto-fit boxes', () => {
+    const layout = layoutText(createRecordingContext(), createLayer({ text: 'Hi', autoFit: true, height: 80 }));
+
+    expect(layout.height).toBe(80);
+  });
+});
+
+describe('withFontSize', () => {
+  it('scales runs with their own size by the same ratio', () => {
+    const layer = createLayer({ text: 'ab', spans: [{ text: 'a' }, { text: 'b', fontSize: 40 }] });
+    const resized = withFontSize(layer, 10);
+
+    expect(resized.fontSize).toBe(10);
+    expect(resized.spans).toEqual([{ text: 'a' }, { text: 'b', fontSize: 20 }]);
+  });
+});
+
+describe('getFitFontSize', () => {
+  const fit = (overrides: Parameters<typeof createLayer>[0]) =>
+    getFitFontSize(createRecordingContext(), createLayer({ autoFit: true, ...overrides }));
+
+  it('picks the largest size whose wrapped text fits the box', () => {
+    // At 40px "Big" is 60 wide and 40 tall
+    expect(fit({ text: 'Big', width: 60, height: 100 })).toBe(40);
+  });
+
+  it('wraps onto more lines when that fits a larger size', () => {
+    // Two 40px lines of "aa" need 40 + 48 = 88 of height and 40 of width
+    expect(fit({ text: 'aa aa', width: 40, height: 88, lineHeight: 1.2 })).toBe(40);
+  });
+
+  it('does not break words to fit', () => {
+    // Breaking "abcdef" would allow a larger size; the word must fit whole
+    expect(fit({ text: 'abcdef', width: 60, height: 1000 })).toBe(20);
+  });
+
+  it('stays within the limits', () => {
+    expect(fit({ text: 'a', width: 1000, height: 1000, maxFontSize: 72 })).toBe(72);
+    expect(fit({ text: 'a long headline', width: 10, height: 10, minFontSize: 12 })).toBe(12);
+  });
+});
@@ -0,0 +1,446 @@
+import { TextLayer, TextPath, TextTransform } from '@/types';
+import { normalizeFontWeight } from '@/lib/fonts';
+import { ResolvedTextStyle, getLayerSpans, getSpansText, resolveSpanStyle } from '@/lib/spans';
+import { getLayerPath, getPathGeometry } from '@/lib/textPath';
+
+export type Canvas2DContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export const DEFAULT_LINE_HEIGHT = 1.2;
+export const MIN_FONT_SIZE = 8;
+export const MAX_FONT_SIZE = 200;
+
+// A piece of a line drawn in one style
+export interface TextRun {
+  // Text as displayed, after any case transform
+  text: string;
+  // Offset from the start of the line, in output pixels
+  x: number;
+  width: number;
+  // Canvas font string, at the layout scale
+  font: string;
+  style: ResolvedTextStyle;
+}
+
+export interface TextLine {
+  text: string;
+  width: number;
+  // Baseline offset from the layer anchor, in output pixels
+  y: number;
+  runs: TextRun[];
+}
+
+// A character placed on a path, centred on (x, y) and turned by `angle` radians
+export interface PathGlyph {
+  text: string;
+  x: number;
+  y: number;
+  angle: number;
+  // Advance along the path, letter spacing included
+  width: number;
+  font: string;
+  style: ResolvedTextStyle;
+}
+
+export interface TextLayout {
+  lines: TextLine[];
+  // Set for text on a path, which is drawn glyph by glyph instead of by line
+  glyphs?: PathGlyph[];
+  lineHeight: number;
+  // Bounding box in the layer's local (unrotated) frame, relative to the anchor
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  // Extra space after each character, in output pixels
+  letterSpacing: number;
+}
+
+type FontSource = Pick<TextLayer, 'fontFamily' | 'fontWeight' | 'fontSize'> & { fontStyle?: string };
+
+export function getFontString(style: FontSource, scale: number = 1): string {
+  const italic = style.fontStyle === 'italic' ? 'italic ' : '';
+  return `${italic}${normalizeFontWeight(style.fontWeight)} ${style.fontSize * scale}px ${style.fontFamily}`;
+}
+
+// Applies a case transform to part of a text; `previous` is the character
+// before it, so words split across runs are capitalised once
+export function applyTextTransform(text: string, transform: TextTransform | undefined, previous: string = ''): string {
+  if (transform === 'uppercase') return text.toUpperCase();
+  if (transform === 'lowercase') return text.toLowerCase();
+  if (transform === 'capitalize') {
+    return text.replace(/(^|\s)(\S)/g, (match, space: string, letter: string, index: number) =>
+      index === 0 && !space && previous && !/\s/.test(previous) ? match : space + letter.toUpperCase()
+    );
+  }
+  return text;
+}
+
+// Offset of a line's start from the anchor for the given alignment
+export function getLineOffset(textAlign: TextLayer['textAlign'], width: number): number {
+  if (textAlign === 'center') return -width / 2;
+  if (textAlign === 'right') return -width;
+  return 0;
+}
+
+// Splits a paragraph into [start, end) line ranges. `measure` gives the
+// width of a range of the paragraph.
+function wrapParagraph(
+  paragraph: string,
+  measure: (start: number, end: number) => number,
+  maxWidth: number
+): [number, number][] {
+  if (maxWidth <= 0 || measure(0, paragraph.length) <= maxWidth) {
+    return [[0, paragraph.length]];
+  }
+
+  const lines: [number, number][] = [];
+  const trimEnd = (start: number, end: number) => {
+    while (end > start && /\s/.test(paragraph[end - 1])) end--;
+    return end;
+  };
+  let lineStart = 0;
+  let position = 0;
+
+  // Keep the whitespace tokens so spacing inside a line is preserved
+  const tokens = paragraph.split(/(\s+)/).filter(token => token.length > 0);
+  for (const token of tokens) {
+    const tokenEnd = position + token.length;
+    const isBlank = paragraph.slice(lineStart, position).trim() === '';
+    if (!isBlank && measure(lineStart, tokenEnd) > maxWidth) {
+      lines.push([lineStart, trimEnd(lineStart, position)]);
+      lineStart = position;
+      while (lineStart < tokenEnd && /\s/.test(paragraph[lineStart])) lineStart++;
+    }
+    position = tokenEnd;
+
+    // Break words that are wider than the wrap box on their own
+    while (measure(lineStart, position) > maxWidth && position - lineStart > 1) {
+      let cut = position - 1;
+      while (cut > lineStart + 1 && measure(lineStart, cut) > maxWidth) {
+        cut--;
+      }
+      lines.push([lineStart, cut]);
+      lineStart = cut;
+    }
+  }
+  lines.push([lineStart, trimEnd(lineStart, position)]);
+
+  return lines;
+}
+
+// Lays out a layer's text into lines of styled runs. Each line advances by
+// the line height of its largest run. Widths include letter spacing after
+// every character, as in CSS.
+export function layoutText(ctx: Canvas2DContext, layer: TextLayer, scale: number = 1): TextLayout {
+  const lineHeightFactor = layer.lineHeight || DEFAULT_LINE_HEIGHT;
+  const path = getLayerPath(layer);
+  // Text on a path is one unwrapped line
+  const wrapWidth = path ? 0 : (layer.wrapWidth || 0) * scale;
+  const letterSpacing = (layer.letterSpacing || 0) * scale;
+
+  // Resolve each run once, with its offsets into the text
+  const spans = getLayerSpans(layer);
+  const text = path ? getSpansText(spans).replace(/\n/g, ' ') : getSpansText(spans);
+  let offset = 0;
+  const runs = spans.map(span => {
+    const style = resolveSpanStyle(layer, span);
+    const run = { start: offset, end: offset + span.text.length, style, font: getFontString(style, scale) };
+    offset = run.end;
+    return run;
+  });
+
+  // Calls `fn` for each run's part of [start, end), as displayed, with its width
+  const eachPiece = (start: number, end: number, fn: (run: typeof runs[number], text: string, width: number) => void) => {
+    runs.forEach(run => {
+      const from = Math.max(start, run.start);
+      const to = Math.min(end, run.end);
+      if (to <= from) return;
+
+      const piece = applyTextTransform(text.slice(from, to), layer.textTransform, text[from - 1]);
+      ctx.font = run.font;
+      fn(run, piece, ctx.measureText(piece).width + Array.from(piece).length * letterSpacing);
+    });
+  };
+  const measure = (start: number, end: number) => {
+    let width = 0;
+    eachPiece(start, end, (run, piece, pieceWidth) => {
+      width += pieceWidth;
+    });
+    return width;
+  };
+
+  const lines: TextLine[] = [];
+  let firstSize = layer.fontSize * scale;
+  let y = 0;
+  let paragraphStart = 0;
+  text.split('\n').forEach(paragraph => {
+    const base = paragraphStart;
+    wrapParagraph(paragraph, (start, end) => measure(base + start, base + end), wrapWidth).forEach(([start, end]) => {
+      const lineRuns: TextRun[] = [];
+      let x = 0;
+      let size = 0;
+      eachPiece(base + start, base + end, (run, piece, width) => {
+        lineRuns.push({ text: piece, x, width, font: run.font, style: run.style });
+        x += width;
+        size = Math.max(size, run.style.fontSize * scale);
+      });
+      // Empty lines take the size of the run they sit in
+      if (size === 0) {
+        const run = runs.find(run => base + start >= run.start && base + start <= run.end);
+        size = (run ? run.style.fontSize : layer.fontSize) * scale;
+      }
+
+      if (lines.length === 0) {
+        firstSize = size;
+      } else {
+        y += size * lineHeightFactor;
+      }
+      lines.push({
+        text: applyTextTransform(paragraph.slice(start, end), layer.textTransform, paragraph[start - 1]),
+        width: x,
+        y,
+        runs: lineRuns,
+      });
+    });
+    paragraphStart += paragraph.length + 1;
+  });
+
+  const width = wrapWidth > 0
+    ? wrapWidth
+    : Math.max(0, ...lines.map(line => line.width));
+  const lastY = lines.length > 0 ? lines[lines.length - 1].y : 0;
+
+  if (path) {
+    return {
+      lines,
+      lineHeight: layer.fontSize * scale * lineHeightFactor,
+      letterSpacing,
+      ...placeOnPath(ctx, layer, lines, scale, letterSpacing),
+    };
+  }
+
+  // Fixed boxes keep their height, with the text at the top
+  const textHeight = firstSize + lastY;
+  const boxHeight = layer.autoFit ? Math.max(textHeight, layer.height * scale) : textHeight;
+  return {
+    lines,
+    lineHeight: layer.fontSize * scale * lineHeightFactor,
+    left: getLineOffset(layer.textAlign, width),
+    top: -firstSize,
+    width,
+    height: boxHeight,
+    letterSpacing,
+  };
+}
+
+// Where curves place text within their length
+const PATH_ALIGN_FACTORS: Record<TextLayer['textAlign'], number> = {
+  left: 0,
+  center: 0.5,
+  right: 1,
+};
+
+// Distance along a path where text of the given width starts
+export function getPathTextStart(
+  path: TextPath,
+  textAlign: TextLayer['textAlign'],
+  pathLength: number,
+  textWidth: number
+): number {
+  return path.type === 'arc'
+    ? getLineOffset(textAlign, textWidth)
+    : (pathLength - textWidth) * PATH_ALIGN_FACTORS[textAlign];
+}
+
+// Extent of a glyph's box around its baseline point, as fractions of its size
+const GLYPH_ASCENT = 1;
+const GLYPH_DESCENT = 0.25;
+
+// Corners of a glyph's box in the layer's local frame
+function getGlyphCorners(glyph: PathGlyph, scale: number): { x: number; y: number }[] {
+  const size = glyph.style.fontSize * scale;
+  const cos = Math.cos(glyph.angle);
+  const sin = Math.sin(glyph.angle);
+  return [
+    [-glyph.width / 2, -size * GLYPH_ASCENT],
+    [glyph.width / 2, -size * GLYPH_ASCENT],
+    [glyph.width / 2, size * GLYPH_DESCENT],
+    [-glyph.width / 2, size * GLYPH_DESCENT],
+  ].map(([x, y]) => ({ x: glyph.x + x * cos - y * sin, y: glyph.y + x * sin + y * cos }));
+}
+
+// Places the laid-out line's characters along the layer's path, each centred
+// on its advance. Arcs align text about their start angle and curves within
+// their length. The box bounds the placed glyphs.
+function placeOnPath(
+  ctx: Canvas2DContext,
+  layer: TextLayer,
+  lines: TextLine[],
+  scale: number,
+  letterSpacing: number
+): Pick<TextLayout, 'glyphs' | 'left' | 'top' | 'width' | 'height'> {
+  const path = getLayerPath(layer)!;
+  const geometry = getPathGeometry(path, scale);
+  const runs = lines.flatMap(line => line.runs);
+  const textWidth = runs.reduce((sum, run) => sum + run.width, 0);
+
+  let distance = getPathTextStart(path, layer.textAlign, geometry.length, textWidth);
+  const glyphs: PathGlyph[] = [];
+  runs.forEach(run => {
+    ctx.font = run.font;
+    Array.from(run.text).forEach(char => {
+      const width = ctx.measureText(char).width + letterSpacing;
+      const position = geometry.pointAt(distance + width / 2);
+      glyphs.push({ text: char, ...position, width, font: run.font, style: run.style });
+      distance += width;
+    });
+  });
+
+  const corners = glyphs.flatMap(glyph => getGlyphCorners(glyph, scale));
+  if (corners.length === 0) {
+    const origin = geometry.pointAt(0);
+    return { glyphs, left: origin.x, top: origin.y - layer.fontSize * scale, width: 0, height: layer.fontSize * scale };
+  }
+  const xs = corners.map(corner => corner.x);
+  const ys = corners.map(corner => corner.y);
+  const left = Math.min(...xs);
+  const top = Math.min(...ys);
+  return { glyphs, left, top, width: Math.max(...xs) - left, height: Math.max(...ys) - top };
+}
+
+// Whether a point in the layer's local frame is on the layer: inside a
+// glyph's box for text on a path, inside the text box otherwise
+export function isPointInLayout(layout: TextLayout, x: number, y: number, scale: number = 1): boolean {
+  if (layout.glyphs) {
+    return layout.glyphs.some(glyph => {
+      const dx = x - glyph.x;
+      const dy = y - glyph.y;
+      const alongX = dx * Math.cos(glyph.angle) + dy * Math.sin(glyph.angle);
+      const alongY = -dx * Math.sin(glyph.angle) + dy * Math.cos(glyph.angle);
+      const size = glyph.style.fontSize * scale;
+      return Math.abs(alongX) <= glyph.width / 2 && alongY >= -size * GLYPH_ASCENT && alongY <= size * GLYPH_DESCENT;
+    });
+  }
+  return x >= layout.left && x <= layout.left + layout.width &&
+    y >= layout.top && y <= layout.top + layout.height;
+}
+
+export interface TextEditorBox {
+  // Top-left corner in the layer's local (unrotated) frame, relative to the anchor
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  lineHeight: number;
+}
+
+// Box for an HTML text editor laid over a layer so its lines share the
+// canvas baselines. CSS centres the font's ascent and descent within each
+// line box, so the box starts that far above the first baseline. Text on a
+// path is edited as the straight line it would be without the path.
+export function getTextEditorBox(ctx: Canvas2DContext, layer: TextLayer): TextEditorBox {
+  const layout = layoutText(ctx, { ...layer, path: undefined });
+  ctx.font = getFontString(layer);
+  const metrics = ctx.measureText(layer.text);
+  const ascent = metrics.fontBoundingBoxAscent ?? layer.fontSize * 0.8;
+  const descent = metrics.fontBoundingBoxDescent ?? layer.fontSize * 0.2;
+  const halfLeading = (layout.lineHeight - ascent - descent) / 2;
+
+  return {
+    left: layout.left,
+    top: -(halfLeading + ascent),
+    width: layout.width,
+    height: layout.lines.length * layout.lineHeight,
+    lineHeight: layout.lineHeight,
+  };
+}
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+// Shared scratch context for measuring text outside of rendering
+export function getMeasureContext(): CanvasRenderingContext2D | null {
+  if (!measureContext) {
+    measureContext = document.createElement('canvas').getContext('2d');
+  }
+  return measureContext;
+}
+
+// Measures a layer's unscaled text box using a shared scratch canvas
+export function measureTextLayer(layer: TextLayer): { width: number; height: number } {
+  const measureContext = getMeasureContext();
+  if (!measureContext) {
+    return { width: layer.width, height: layer.height };
+  }
+
+  measureContext.font = getFontString(layer);
+  const layout = layoutText(measureContext, layer);
+  return { width: layout.width, height: layout.height };
+}
+
+// A layer at another font size; runs with their own size scale with it
+export function withFontSize(layer: TextLayer, fontSize: number): TextLayer {
+  if (!layer.spans?.some(span => span.fontSize !== undefined)) {
+    return { ...layer, fontSize };
+  }
+  const ratio = fontSize / layer.fontSize;
+  return {
+    ...layer,
+    fontSize,
+    spans: layer.spans.map(span =>
+      span.fontSize !== undefined
+        ? { ...span, fontSize: Math.max(MIN_FONT_SIZE, Math.min(MAX_FONT_SIZE, Math.round(span.fontSize * ratio))) }
+        : span
+    ),
+  };
+}
+
+// Largest whole font size within an auto-fit layer's limits at which its
+// text, wrapped to the box width, fits the box without breaking words; the
+// minimum when nothing fits
+export function getFitFontSize(ctx: Canvas2DContext, layer: TextLayer): number {
+  const min = Math.max(MIN_FONT_SIZE, Math.round(layer.minFontSize ?? MIN_FONT_SIZE));
+  const max = Math.max(min, Math.min(MAX_FONT_SIZE, Math.round(layer.maxFontSize ?? MAX_FONT_SIZE)));
+
+  const fits = (fontSize: number) => {
+    const candidate = { ...withFontSize(layer, fontSize), autoFit: false, wrapWidth: layer.width };
+    ctx.font = getFontString(candidate);
+    if (layoutText(ctx, candidate).height > layer.height) return false;
+
+    // One word per line gives the widest word
+    const words = {
+      ...candidate,
+      wrapWidth: 0,
+      spans: getLayerSpans(candidate).map(span => ({ ...span, text: span.text.replace(/\s/g, '\n') })),
+    };
+    return layoutText(ctx, words).width <= layer.width;
+  };
+
+  let low = min;
+  let high = max;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (fits(middle)) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return low;
+}
+
+// Auto-fit layers keep a fixed box; text on a path is always free
+export function hasFixedBox(layer: TextLayer): boolean {
+  return !!layer.autoFit && !getLayerPath(layer);
+}
+
+// Sizes a layer after an edit. Free text takes its measured size; fixed
+// boxes keep their size and get the font size that fits them.
+export function fitTextLayer(layer: TextLayer): TextLayer {
+  if (!hasFixedBox(layer)) {
+    return { ...layer, ...measureTextLayer(layer) };
+  }
+
+  const measureContext = getMeasureContext();
+  if (!measureContext) return layer;
+  return { ...withFontSize(layer, getFitFontSize(measureContext, layer)), wrapWidth: layer.width };
+}
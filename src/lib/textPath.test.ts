@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { getPathGeometry, scaleTextPath, toPathPoints } from '@/lib/textPath';
+import { createLayer } from '@/test/layers';
+
+describe('getPathGeometry', () => {
+  it('runs clockwise arcs over the top of the circle from the start angle', () => {
+    const geometry = getPathGeometry({ type: 'arc', radius: 100, startAngle: 0, clockwise: true });
+
+    expect(geometry.length).toBeCloseTo(200 * Math.PI);
+    const top = geometry.pointAt(0);
+    expect(top.x).toBeCloseTo(0);
+    expect(top.y).toBeCloseTo(-100);
+    expect(top.angle).toBeCloseTo(0);
+
+    const right = geometry.pointAt(50 * Math.PI);
+    expect(right.x).toBeCloseTo(100);
+    expect(right.y).toBeCloseTo(0);
+    expect(right.angle).toBeCloseTo(Math.PI / 2);
+  });
+
+  it('keeps counter-clockwise text upright along the bottom', () => {
+    const geometry = getPathGeometry({ type: 'arc', radius: 100, startAngle: 180, clockwise: false });
+    const bottom = geometry.pointAt(0);
+
+    expect(bottom.x).toBeCloseTo(0);
+    expect(bottom.y).toBeCloseTo(100);
+    expect(bottom.angle).toBeCloseTo(0);
+  });
+
+  it('extends curves in a straight line past their ends', () => {
+    const geometry = getPathGeometry({ type: 'curve', points: [{ x: 0, y: 0 }, { x: 0, y: 100 }] }, 2);
+
+    expect(geometry.length).toBeCloseTo(200);
+    const past = geometry.pointAt(250);
+    expect(past.x).toBeCloseTo(0);
+    expect(past.y).toBeCloseTo(250);
+    expect(past.angle).toBeCloseTo(Math.PI / 2);
+  });
+});
+
+describe('toPathPoints', () => {
+  it('converts design points into the rotated layer frame', () => {
+    const layer = createLayer({ x: 100, y: 100, rotation: 90 });
+
+    expect(toPathPoints(layer, [{ x: 100, y: 150 }])).toEqual([{ x: 50, y: 0 }]);
+  });
+});
+
+describe('scaleTextPath', () => {
+  it('scales arcs within the radius limits and curves about the anchor', () => {
+    expect(scaleTextPath({ type: 'arc', radius: 800, startAngle: 0, clockwise: true }, 2)).toMatchObject({ radius: 1000 });
+    expect(scaleTextPath({ type: 'curve', points: [{ x: 10, y: -6 }] }, 1.5)).toEqual({
+      type: 'curve',
+      points: [{ x: 15, y: -9 }],
+    });
+  });
+});
@@ -0,0 +1,181 @@
+import { PathPoint, TextLayer, TextPath } from '@/types';
+
+/*
+ * Text on a path. The layout places each character by its distance along
+ * the path and turns it to the path's direction there. Arcs are measured
+ * from their start angle; curves from their first point, and text running
+ * past either end carries on in a straight line.
+ */
+
+export const MIN_ARC_RADIUS = 10;
+export const MAX_ARC_RADIUS = 1000;
+
+// Samples per Bézier segment when measuring curves
+const CURVE_SAMPLES = 24;
+
+// A point on a path and the direction text runs there, in radians
+export interface PathPosition {
+  x: number;
+  y: number;
+  angle: number;
+}
+
+export interface PathGeometry {
+  length: number;
+  pointAt: (distance: number) => PathPosition;
+}
+
+// Start, two control points and end
+export type CubicSegment = [PathPoint, PathPoint, PathPoint, PathPoint];
+
+// A path of the given type for a layer; new arcs are sized so the text
+// covers about a third of the circle
+export function createTextPath(type: TextPath['type'], layer: TextLayer): TextPath {
+  if (type === 'curve') {
+    return { type, points: [] };
+  }
+  const radius = Math.round((layer.width * 3) / (2 * Math.PI));
+  return {
+    type,
+    radius: Math.max(MIN_ARC_RADIUS, Math.min(MAX_ARC_RADIUS, radius)),
+    startAngle: 0,
+    clockwise: true,
+  };
+}
+
+// The path a layer's text follows, or null for straight text. Curves need
+// at least two points.
+export function getLayerPath(layer: TextLayer): TextPath | null {
+  const path = layer.path;
+  if (!path || (path.type === 'curve' && path.points.length < 2)) return null;
+  return path;
+}
+
+// Smooth Bézier segments through the points (Catmull-Rom), ends included
+export function getCurveSegments(points: PathPoint[]): CubicSegment[] {
+  const segments: CubicSegment[] = [];
+  for (let i = 0; i < points.length - 1; i++) {
+    const previous = points[Math.max(0, i - 1)];
+    const start = points[i];
+    const end = points[i + 1];
+    const next = points[Math.min(points.length - 1, i + 2)];
+    segments.push([
+      start,
+      { x: start.x + (end.x - previous.x) / 6, y: start.y + (end.y - previous.y) / 6 },
+      { x: end.x - (next.x - start.x) / 6, y: end.y - (next.y - start.y) / 6 },
+      end,
+    ]);
+  }
+  return segments;
+}
+
+function getCubicPoint([p0, p1, p2, p3]: CubicSegment, t: number): PathPoint {
+  const u = 1 - t;
+  return {
+    x: u * u * u * p0.x + 3 * u * u * t * p1.x + 3 * u * t * t * p2.x + t * t * t * p3.x,
+    y: u * u * u * p0.y + 3 * u * u * t * p1.y + 3 * u * t * t * p2.y + t * t * t * p3.y,
+  };
+}
+
+function getArcGeometry(path: Extract<TextPath, { type: 'arc' }>, scale: number): PathGeometry {
+  const radius = Math.max(MIN_ARC_RADIUS, path.radius) * scale;
+  const start = (path.startAngle * Math.PI) / 180;
+  const direction = path.clockwise ? 1 : -1;
+
+  return {
+    length: 2 * Math.PI * radius,
+    pointAt: distance => {
+      const theta = start + (direction * distance) / radius;
+      return {
+        x: radius * Math.sin(theta),
+        y: -radius * Math.cos(theta),
+        // Counter-clockwise text faces out of the bottom of the circle
+        angle: path.clockwise ? theta : theta - Math.PI,
+      };
+    },
+  };
+}
+
+function getCurveGeometry(points: PathPoint[], scale: number): PathGeometry {
+  // Measure the curve as a fine polyline
+  const samples: PathPoint[] = [];
+  getCurveSegments(points).forEach((segment, index) => {
+    for (let i = index === 0 ? 0 : 1; i <= CURVE_SAMPLES; i++) {
+      const point = getCubicPoint(segment, i / CURVE_SAMPLES);
+      samples.push({ x: point.x * scale, y: point.y * scale });
+    }
+  });
+  if (samples.length < 2) {
+    const origin = samples[0] || { x: 0, y: 0 };
+    return { length: 0, pointAt: distance => ({ x: origin.x + distance, y: origin.y, angle: 0 }) };
+  }
+
+  const distances = [0];
+  for (let i = 1; i < samples.length; i++) {
+    distances.push(distances[i - 1] + Math.hypot(samples[i].x - samples[i - 1].x, samples[i].y - samples[i - 1].y));
+  }
+  const length = distances[distances.length - 1];
+
+  // Position along the sample segment starting at `index`, extended past the ends
+  const along = (index: number, distance: number): PathPosition => {
+    const from = samples[index];
+    const to = samples[index + 1];
+    const segmentLength = distances[index + 1] - distances[index] || 1;
+    const t = (distance - distances[index]) / segmentLength;
+    return {
+      x: from.x + (to.x - from.x) * t,
+      y: from.y + (to.y - from.y) * t,
+      angle: Math.atan2(to.y - from.y, to.x - from.x),
+    };
+  };
+
+  return {
+    length,
+    pointAt: distance => {
+      if (distance <= 0) return along(0, distance);
+      if (distance >= length) return along(samples.length - 2, distance);
+
+      let low = 0;
+      let high = samples.length - 1;
+      while (high - low > 1) {
+        const middle = (low + high) >> 1;
+        if (distances[middle] <= distance) {
+          low = middle;
+        } else {
+          high = middle;
+        }
+      }
+      return along(low, distance);
+    },
+  };
+}
+
+// Geometry of a path in output pixels, in the layer's local frame
+export function getPathGeometry(path: TextPath, scale: number = 1): PathGeometry {
+  return path.type === 'arc' ? getArcGeometry(path, scale) : getCurveGeometry(path.points, scale);
+}
+
+// Design points -> the layer's local frame, for paths drawn on the canvas
+export function toPathPoints(layer: TextLayer, points: PathPoint[]): PathPoint[] {
+  const angle = (-layer.rotation * Math.PI) / 180;
+  return points.map(point => {
+    const dx = point.x - layer.x;
+    const dy = point.y - layer.y;
+    return {
+      x: Math.round(dx * Math.cos(angle) - dy * Math.sin(angle)),
+      y: Math.round(dx * Math.sin(angle) + dy * Math.cos(angle)),
+    };
+  });
+}
+
+// A path scaled about the layer anchor, for resizing
+export function scaleTextPath(path: TextPath, ratio: number): TextPath {
+  if (path.type === 'arc') {
+    const radius = Math.round(path.radius * ratio);
+    return { ...path, radius: Math.max(MIN_ARC_RADIUS, Math.min(MAX_ARC_RADIUS, radius)) };
+  }
+  return {
+    ...path,
+    points: path.points.map(point => ({ x: Math.round(point.x * ratio), y: Math.round(point.y * ratio) })),
+  };
+}
@@ -0,0 +1,287 @@
+import { TextLayer } from '@/types';
+import {
+  Canvas2DContext, getFitFontSize, getFontString, hasFixedBox, layoutText, TextLayout, withFontSize,
+  MIN_FONT_SIZE, MAX_FONT_SIZE,
+} from '@/lib/text';
+import { scaleTextPath } from '@/lib/textPath';
+
+/*
+ * Geometry for the on-canvas transform handles.
+ *
+ * Handle sizes are given in screen pixels and converted with `pixelSize`
+ * (units per screen pixel), so the handles look the same at any zoom.
+ * The same functions drive drawing (canvas pixels) and hit-testing
+ * (design pixels).
+ */
+
+export type TransformHandle = 'nw' | 'ne' | 'se' | 'sw' | 'e' | 'w' | 'rotate';
+
+// Screen-pixel sizes
+export const HANDLE_SIZE = 8;
+export const SELECTION_PADDING = 10;
+export const ROTATE_HANDLE_OFFSET = 24;
+
+const ROTATION_SNAP = 15;
+const MIN_WRAP_WIDTH = 20;
+const MIN_BOX_HEIGHT = 20;
+
+export interface HandlePoint {
+  handle: TransformHandle;
+  x: number;
+  y: number;
+}
+
+export interface SelectionFrame {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  handles: HandlePoint[];
+}
+
+// Selection box and handle positions in the layer's local (unrotated) frame
+export function getSelectionFrame(layout: TextLayout, pixelSize: number): SelectionFrame {
+  const padding = SELECTION_PADDING * pixelSize;
+  const left = layout.left - padding;
+  const top = layout.top - padding;
+  const width = layout.width + padding * 2;
+  const height = layout.height + padding * 2;
+  const middleY = top + height / 2;
+
+  return {
+    left,
+    top,
+    width,
+    height,
+    handles: [
+      { handle: 'nw', x: left, y: top },
+      { handle: 'ne', x: left + width, y: top },
+      { handle: 'se', x: left + width, y: top + height },
+      { handle: 'sw', x: left, y: top + height },
+      // Text on a path doesn't wrap, so it has no edge handles
+      ...(layout.glyphs ? [] : [
+        { handle: 'e' as const, x: left + width, y: middleY },
+        { handle: 'w' as const, x: left, y: middleY },
+      ]),
+      { handle: 'rotate', x: left + width / 2, y: top - ROTATE_HANDLE_OFFSET * pixelSize },
+    ],
+  };
+}
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+// Design point -> layer-local point (anchor at the origin, rotation undone)
+function toLocal(layer: TextLayer, x: number, y: number): { x: number; y: number } {
+  const angle = toRadians(-layer.rotation);
+  const dx = x - layer.x;
+  const dy = y - layer.y;
+  return {
+    x: dx * Math.cos(angle) - dy * Math.sin(angle),
+    y: dx * Math.sin(angle) + dy * Math.cos(angle),
+  };
+}
+
+// Layer-local offset -> design-space offset
+function toWorldOffset(layer: TextLayer, x: number, y: number): { x: number; y: number } {
+  const angle = toRadians(layer.rotation);
+  return {
+    x: x * Math.cos(angle) - y * Math.sin(angle),
+    y: x * Math.sin(angle) + y * Math.cos(angle),
+  };
+}
+
+function getLayout(ctx: Canvas2DContext, layer: TextLayer): TextLayout {
+  ctx.font = getFontString(layer);
+  return layoutText(ctx, layer);
+}
+
+export interface Bounds {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+// Axis-aligned design-space box around a layer's (possibly rotated) text
+export function getLayerBounds(ctx: Canvas2DContext, layer: TextLayer): Bounds {
+  const layout = getLayout(ctx, layer);
+  const corners = [
+    toWorldOffset(layer, layout.left, layout.top),
+    toWorldOffset(layer, layout.left + layout.width, layout.top),
+    toWorldOffset(layer, layout.left + layout.width, layout.top + layout.height),
+    toWorldOffset(layer, layout.left, layout.top + layout.height),
+  ];
+  const xs = corners.map(corner => layer.x + corner.x);
+  const ys = corners.map(corner => layer.y + corner.y);
+  return {
+    left: Math.min(...xs),
+    top: Math.min(...ys),
+    right: Math.max(...xs),
+    bottom: Math.max(...ys),
+  };
+}
+
+// Returns the handle of `layer` under a design-space point, if any
+export function getHandleAtPoint(
+  ctx: Canvas2DContext,
+  layer: TextLayer,
+  x: number,
+  y: number,
+  pixelSize: number
+): TransformHandle | null {
+  const frame = getSelectionFrame(getLayout(ctx, layer), pixelSize);
+  const local = toLocal(layer, x, y);
+  // A little larger than the drawn square so handles are easy to grab
+  const radius = HANDLE_SIZE * pixelSize;
+
+  const hit = frame.handles.find(point =>
+    Math.abs(local.x - point.x) <= radius && Math.abs(local.y - point.y) <= radius
+  );
+  return hit ? hit.handle : null;
+}
+
+export function getHandleCursor(handle: TransformHandle, rotation: number): string {
+  if (handle === 'rotate') return 'grab';
+
+  // Pick the resize cursor closest to the handle's on-screen direction
+  const baseAngles: Record<Exclude<TransformHandle, 'rotate'>, number> = {
+    e: 0, se: 45, sw: 135, w: 180, nw: 225, ne: 315,
+  };
+  const angle = (((baseAngles[handle] + rotation) % 180) + 180) % 180;
+  const cursors = ['ew-resize', 'nwse-resize', 'ns-resize', 'nesw-resize'];
+  return cursors[Math.round(angle / 45) % 4];
+}
+
+// Resizes a fixed box to the local rectangle and refits its font, shifting
+// the anchor so the box's top-left corner lands on the rectangle's
+function getBoxResizeUpdates(
+  ctx: Canvas2DContext,
+  startLayer: TextLayer,
+  left: number,
+  top: number,
+  width: number,
+  height: number
+): Partial<TextLayer> {
+  const sized = { ...startLayer, width, height, wrapWidth: width };
+  const fitted = withFontSize(sized, getFitFontSize(ctx, sized));
+  const layout = getLayout(ctx, fitted);
+
+  const offset = toWorldOffset(startLayer, left - layout.left, top - layout.top);
+  return {
+    width,
+    height,
+    wrapWidth: width,
+    fontSize: fitted.fontSize,
+    spans: fitted.spans,
+    x: startLayer.x + offset.x,
+    y: startLayer.y + offset.y,
+  };
+}
+
+export interface HandleDragOptions {
+  // Snap rotation to 15° steps
+  snap?: boolean;
+}
+
+// Computes the layer updates for dragging `handle` from `start` to `point`
+// (design space). `startLayer` is the layer as it was when the gesture began.
+export function getHandleDragUpdates(
+  ctx: Canvas2DContext,
+  startLayer: TextLayer,
+  handle: TransformHandle,
+  start: { x: number; y: number },
+  point: { x: number; y: number },
+  options: HandleDragOptions = {}
+): Partial<TextLayer> {
+  if (handle === 'rotate') {
+    // Layers rotate about their anchor, so measure the pointer's sweep around it
+    const startAngle = Math.atan2(start.y - startLayer.y, start.x - startLayer.x);
+    const angle = Math.atan2(point.y - startLayer.y, point.x - startLayer.x);
+    const degrees = startLayer.rotation + ((angle - startAngle) * 180) / Math.PI;
+    const rotation = options.snap ? Math.round(degrees / ROTATION_SNAP) * ROTATION_SNAP : Math.round(degrees);
+    return { rotation: ((rotation % 360) + 360) % 360 };
+  }
+
+  const layout = getLayout(ctx, startLayer);
+  const local = toLocal(startLayer, point.x, point.y);
+
+  if (hasFixedBox(startLayer)) {
+    // Fixed boxes resize their frame, keeping the opposite side in place,
+    // and the font is refitted
+    const right = layout.left + layout.width;
+    const bottom = layout.top + layout.height;
+    const movesLeft = handle === 'w' || handle === 'nw' || handle === 'sw';
+    const movesTop = handle === 'nw' || handle === 'ne';
+    const movesBottom = handle === 'sw' || handle === 'se';
+
+    const width = Math.max(MIN_WRAP_WIDTH, Math.round(movesLeft ? right - local.x : local.x - layout.left));
+    let height = startLayer.height;
+    if (movesTop) height = Math.max(MIN_BOX_HEIGHT, Math.round(bottom - local.y));
+    if (movesBottom) height = Math.max(MIN_BOX_HEIGHT, Math.round(local.y - layout.top));
+
+    return getBoxResizeUpdates(
+      ctx,
+      startLayer,
+      movesLeft ? right - width : layout.left,
+      movesTop ? bottom - height : layout.top,
+      width,
+      height
+    );
+  }
+
+  if (handle === 'e' || handle === 'w') {
+    // Edges set the wrap width, keeping the opposite edge in place
+    const oppositeX = handle === 'e' ? layout.left : layout.left + layout.width;
+    const wrapWidth = Math.max(MIN_WRAP_WIDTH, Math.round(Math.abs(local.x - oppositeX)));
+
+    let newLeft = -wrapWidth;
+    if (startLayer.textAlign === 'left') newLeft = 0;
+    if (startLayer.textAlign === 'center') newLeft = -wrapWidth / 2;
+
+    const anchorX = handle === 'e' ? oppositeX - newLeft : oppositeX - newLeft - wrapWidth;
+    const offset = toWorldOffset(startLayer, anchorX, 0);
+    return { wrapWidth, x: startLayer.x + offset.x, y: startLayer.y + offset.y };
+  }
+
+  // Corners scale the font size (and wrap box) about the opposite corner
+  const corners = {
+    nw: { x: layout.left, y: layout.top },
+    ne: { x: layout.left + layout.width, y: layout.top },
+    se: { x: layout.left + layout.width, y: layout.top + layout.height },
+    sw: { x: layout.left, y: layout.top + layout.height },
+  };
+  const opposite = { nw: corners.se, ne: corners.sw, se: corners.nw, sw: corners.ne }[handle];
+  const diagonalX = corners[handle].x - opposite.x;
+  const diagonalY = corners[handle].y - opposite.y;
+
+  // Compare how far along the diagonal the pointer is now versus at the start
+  const startLocal = toLocal(startLayer, start.x, start.y);
+  const startDistance = (startLocal.x - opposite.x) * diagonalX + (startLocal.y - opposite.y) * diagonalY;
+  const distance = (local.x - opposite.x) * diagonalX + (local.y - opposite.y) * diagonalY;
+  if (startDistance <= 0) return {};
+
+  const scaled = startLayer.fontSize * (distance / startDistance);
+  const fontSize = Math.max(MIN_FONT_SIZE, Math.min(MAX_FONT_SIZE, Math.round(scaled)));
+  const ratio = fontSize / startLayer.fontSize;
+
+  // The local box scales about the anchor, so shift the anchor to pin the opposite corner
+  const offset = toWorldOffset(startLayer, opposite.x * (1 - ratio), opposite.y * (1 - ratio));
+  const updates: Partial<TextLayer> = {
+    fontSize,
+    x: startLayer.x + offset.x,
+    y: startLayer.y + offset.y,
+  };
+  if (startLayer.wrapWidth) {
+    updates.wrapWidth = Math.round(startLayer.wrapWidth * ratio);
+  }
+  if (startLayer.path) {
+    updates.path = scaleTextPath(startLayer.path, ratio);
+  }
+  // Runs with their own size scale along with the layer
+  if (startLayer.spans?.some(span => span.fontSize !== undefined)) {
+    updates.spans = withFontSize(startLayer, fontSize).spans;
+  }
+  return updates;
+}
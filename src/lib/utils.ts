@@ -1,13 +1,19 @@
-import { TextLayer } from '@/types';
+import { CanvasState, TextLayer } from '@/types';
+
+// Largest design size; bigger images keep their pixels and are only displayed smaller
+export const MAX_DESIGN_WIDTH = 1200;
+export const MAX_DESIGN_HEIGHT = 800;
 
 export function generateId(): string {
   return Math.random().toString(36).substr(2, 9);
 }
 
 export function createDefaultTextLayer(x: number, y: number): TextLayer {
+  const text = 'Double click to edit';
   return {
     id: generateId(),
-    text: 'Double click to edit',
+    text,
+    spans: [{ text }],
     x,
     y,
     width: 200,
@@ -15,9 +21,19 @@ export function createDefaultTextLayer(x: number, y: number): TextLayer {
     rotation: 0,
     fontSize: 24,
     fontFamily: 'Arial',
-    fontWeight: 'normal',
+    fontWeight: '400',
+    fontStyle: 'normal',
+    underline: false,
+    strikethrough: false,
+    letterSpacing: 0,
+    textTransform: 'none',
+    fill: { type: 'solid' },
+    strokeWidth: 0,
+    strokeColor: '#000000',
+    strokeJoin: 'round',
     color: '#000000',
     opacity: 1,
+    blendMode: 'normal',
     textAlign: 'left',
     isSelected: false,
     zIndex: 0,
@@ -31,6 +47,8 @@ export function createDefaultTextLayer(x: number, y: number): TextLayer {
     backgroundColor: 'transparent',
     borderWidth: 0,
     borderColor: '#000000',
+    wrapWidth: 0,
+    lineHeight: 1.2,
   };
 }
 
@@ -47,6 +65,50 @@ export function calculateAspectRatioFit(
   };
 }
 
+// A design exists once it has dimensions, with or without a base image
+export function hasCanvas(state: CanvasState): boolean {
+  return state.imageWidth > 0 && state.imageHeight > 0;
+}
+
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load image'));
+    img.src = src;
+  });
+}
+
+// Ratio between source image pixels and design pixels (1 for older designs)
+export function getSourceScale(state: CanvasState): number {
+  if (!state.sourceWidth || !state.imageWidth) return 1;
+  return state.sourceWidth / state.imageWidth;
+}
+
+// Creates a downsampled copy of a large image for on-screen editing
+export function createImageProxy(
+  image: HTMLImageElement,
+  maxWidth: number,
+  maxHeight: number
+): CanvasImageSource {
+  if (image.naturalWidth <= maxWidth && image.naturalHeight <= maxHeight) {
+    return image;
+  }
+
+  const { width, height } = calculateAspectRatioFit(image.naturalWidth, image.naturalHeight, maxWidth, maxHeight);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width);
+  canvas.height = Math.round(height);
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return image;
+
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
+
 export function downloadImage(dataUrl: string, filename: string): void {
   const link = document.createElement('a');
   link.download = filename;
@@ -56,6 +118,38 @@ export function downloadImage(dataUrl: string, filename: string): void {
   document.body.removeChild(link);
 }
 
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  downloadImage(url, filename);
+  // Give the browser a moment to start the download before releasing the URL
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+export function dataUrlToBytes(dataUrl: string): Uint8Array {
+  const commaIndex = dataUrl.indexOf(',');
+  const header = dataUrl.slice(0, commaIndex);
+  const payload = dataUrl.slice(commaIndex + 1);
+
+  if (header.endsWith(';base64')) {
+    const binary = atob(payload);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+  }
+  return new TextEncoder().encode(decodeURIComponent(payload));
+}
+
 export function debounce<T extends (...args: unknown[]) => unknown>(
   func: T,
   wait: number
@@ -0,0 +1,64 @@
+/*
+ * Editor viewport. The design is drawn at `zoom` screen pixels per design
+ * pixel, with its origin `panX`/`panY` screen pixels from the top-left
+ * corner of the viewport.
+ */
+
+export interface Viewport {
+  zoom: number;
+  panX: number;
+  panY: number;
+}
+
+export interface ViewportSize {
+  width: number;
+  height: number;
+}
+
+export const MIN_ZOOM = 0.05;
+export const MAX_ZOOM = 8;
+// Multiplier applied by one zoom in/out step
+export const ZOOM_STEP = 1.25;
+// Space kept around the design when fitting, in screen pixels
+const FIT_PADDING = 32;
+
+export function clampZoom(zoom: number): number {
+  return Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+}
+
+// Changes the zoom while keeping the design point under `point` (viewport pixels) still
+export function zoomAround(viewport: Viewport, zoom: number, point: { x: number; y: number }): Viewport {
+  const nextZoom = clampZoom(zoom);
+  const ratio = nextZoom / viewport.zoom;
+  return {
+    zoom: nextZoom,
+    panX: point.x - (point.x - viewport.panX) * ratio,
+    panY: point.y - (point.y - viewport.panY) * ratio,
+  };
+}
+
+// Centres the design in the viewport at the given zoom
+export function centerViewport(design: ViewportSize, container: ViewportSize, zoom: number): Viewport {
+  const nextZoom = clampZoom(zoom);
+  return {
+    zoom: nextZoom,
+    panX: (container.width - design.width * nextZoom) / 2,
+    panY: (container.height - design.height * nextZoom) / 2,
+  };
+}
+
+// 'fit' shows the whole design with a margin; 'fill' covers the viewport and crops the rest
+export function fitViewport(design: ViewportSize, container: ViewportSize, mode: 'fit' | 'fill'): Viewport {
+  if (design.width <= 0 || design.height <= 0) {
+    return { zoom: 1, panX: 0, panY: 0 };
+  }
+
+  if (mode === 'fill') {
+    const zoom = Math.max(container.width / design.width, container.height / design.height);
+    return centerViewport(design, container, zoom);
+  }
+
+  const width = Math.max(1, container.width - FIT_PADDING * 2);
+  const height = Math.max(1, container.height - FIT_PADDING * 2);
+  return centerViewport(design, container, Math.min(width / design.width, height / design.height));
+}
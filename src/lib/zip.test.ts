@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { createZip, crc32 } from '@/lib/zip';
+
+const encoder = new TextEncoder();
+
+describe('crc32', () => {
+  it('matches the standard check values', () => {
+    expect(crc32(encoder.encode('123456789'))).toBe(0xcbf43926);
+    expect(crc32(encoder.encode('The quick brown fox jumps over the lazy dog'))).toBe(0x414fa339);
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+});
+
+describe('createZip', () => {
+  const first = { name: 'a.png', data: encoder.encode('first') };
+  const second = { name: 'dir/b.jpg', data: encoder.encode('second file') };
+
+  async function readZip() {
+    const blob = createZip([first, second], new Date(2024, 0, 2, 3, 4, 6));
+    return { blob, view: new DataView(await blob.arrayBuffer()) };
+  }
+
+  it('writes each file after its local header', async () => {
+    const { blob, view } = await readZip();
+    const bytes = new Uint8Array(view.buffer);
+
+    expect(blob.type).toBe('application/zip');
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint32(14, true)).toBe(crc32(first.data));
+    expect(view.getUint32(18, true)).toBe(5);
+    expect(view.getUint16(26, true)).toBe(5);
+    expect(new TextDecoder().decode(bytes.subarray(30, 40))).toBe('a.pngfirst');
+
+    // The second header follows the first name and data
+    const secondOffset = 30 + 5 + 5;
+    expect(view.getUint32(secondOffset, true)).toBe(0x04034b50);
+    expect(view.getUint32(secondOffset + 14, true)).toBe(crc32(second.data));
+    expect(view.getUint16(secondOffset + 26, true)).toBe(9);
+  });
+
+  it('points the central directory at each local header', async () => {
+    const { view } = await readZip();
+    const end = view.byteLength - 22;
+
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 8, true)).toBe(2);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+
+    // Both local entries come before the directory
+    const directoryOffset = view.getUint32(end + 16, true);
+    expect(directoryOffset).toBe(30 + 5 + 5 + 30 + 9 + 11);
+    expect(view.getUint32(end + 12, true)).toBe(46 + 5 + 46 + 9);
+    expect(directoryOffset + view.getUint32(end + 12, true)).toBe(end);
+
+    expect(view.getUint32(directoryOffset, true)).toBe(0x02014b50);
+    expect(view.getUint32(directoryOffset + 42, true)).toBe(0);
+    const secondEntry = directoryOffset + 46 + 5;
+    expect(view.getUint32(secondEntry, true)).toBe(0x02014b50);
+    expect(view.getUint32(secondEntry + 16, true)).toBe(crc32(second.data));
+    expect(view.getUint32(secondEntry + 42, true)).toBe(40);
+  });
+
+  it('stores the modified time in DOS format', async () => {
+    const { view } = await readZip();
+
+    expect(view.getUint16(10, true)).toBe((3 << 11) | (4 << 5) | 3);
+    expect(view.getUint16(12, true)).toBe((44 << 9) | (1 << 5) | 2);
+  });
+});
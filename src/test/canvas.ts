@@ -0,0 +1,210 @@
+import { Canvas2DContext } from '@/lib/text';
+
+/*
+ * A 2D context that records drawing calls instead of rasterising, so the
+ * renderer and layout can be tested without a browser. Text measures half
+ * the font size per character, with an ascent of 0.8 and a descent of 0.2
+ * of the size.
+ */
+
+export interface Matrix {
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+  e: number;
+  f: number;
+}
+
+export interface DrawState {
+  font: string;
+  fillStyle: unknown;
+  strokeStyle: unknown;
+  lineWidth: number;
+  globalAlpha: number;
+  globalCompositeOperation: string;
+  shadowColor: string;
+  letterSpacing: string;
+  transform: Matrix;
+}
+
+export interface DrawCall {
+  method: string;
+  args: unknown[];
+  // Context state when the call was made
+  state: DrawState;
+}
+
+export interface RecordedGradient {
+  type: 'linear' | 'radial';
+  args: number[];
+  stops: [number, string][];
+  addColorStop: (offset: number, color: string) => void;
+}
+
+const IDENTITY: Matrix = { a: 1, b: 0, c: 0, d: 1, e: 0, f: 0 };
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return {
+    a: m.a * n.a + m.c * n.b,
+    b: m.b * n.a + m.d * n.b,
+    c: m.a * n.c + m.c * n.d,
+    d: m.b * n.c + m.d * n.d,
+    e: m.a * n.e + m.c * n.f + m.e,
+    f: m.b * n.e + m.d * n.f + m.f,
+  };
+}
+
+// Recorded methods that only draw or build paths
+const DRAW_METHODS = [
+  'clearRect', 'fillRect', 'strokeRect', 'fillText', 'strokeText', 'drawImage',
+  'beginPath', 'moveTo', 'lineTo', 'arc', 'bezierCurveTo', 'fill', 'stroke', 'setLineDash',
+];
+
+export class RecordingContext {
+  calls: DrawCall[] = [];
+  canvas: { width: number; height: number };
+
+  font = '10px sans-serif';
+  fillStyle: unknown = '#000000';
+  strokeStyle: unknown = '#000000';
+  lineWidth = 1;
+  lineJoin = 'miter';
+  lineDashOffset = 0;
+  globalAlpha = 1;
+  globalCompositeOperation = 'source-over';
+  shadowColor = 'rgba(0, 0, 0, 0)';
+  shadowBlur = 0;
+  shadowOffsetX = 0;
+  shadowOffsetY = 0;
+  textAlign = 'start';
+  textBaseline = 'alphabetic';
+  letterSpacing = '0px';
+  imageSmoothingQuality = 'low';
+
+  private transform: Matrix = IDENTITY;
+  private stack: Omit<DrawState, 'transform'>[] = [];
+  private transformStack: Matrix[] = [];
+
+  constructor(width: number = 1000, height: number = 1000) {
+    this.canvas = { width, height };
+    DRAW_METHODS.forEach(method => {
+      (this as unknown as Record<string, unknown>)[method] = (...args: unknown[]) => {
+        this.calls.push({ method, args, state: this.snapshot() });
+      };
+    });
+  }
+
+  snapshot(): DrawState {
+    return {
+      font: this.font,
+      fillStyle: this.fillStyle,
+      strokeStyle: this.strokeStyle,
+      lineWidth: this.lineWidth,
+      globalAlpha: this.globalAlpha,
+      globalCompositeOperation: this.globalCompositeOperation,
+      shadowColor: this.shadowColor,
+      letterSpacing: this.letterSpacing,
+      transform: this.transform,
+    };
+  }
+
+  // Calls of one method, in order
+  callsTo(method: string): DrawCall[] {
+    return this.calls.filter(call => call.method === method);
+  }
+
+  save() {
+    const { transform, ...state } = this.snapshot();
+    this.stack.push(state);
+    this.transformStack.push(transform);
+  }
+
+  restore() {
+    const state = this.stack.pop();
+    const transform = this.transformStack.pop();
+    if (!state || !transform) return;
+    Object.assign(this, state);
+    this.transform = transform;
+  }
+
+  translate(x: number, y: number) {
+    this.transform = multiply(this.transform, { ...IDENTITY, e: x, f: y });
+  }
+
+  rotate(angle: number) {
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    this.transform = multiply(this.transform, { a: cos, b: sin, c: -sin, d: cos, e: 0, f: 0 });
+  }
+
+  scale(x: number, y: number) {
+    this.transform = multiply(this.transform, { ...IDENTITY, a: x, d: y });
+  }
+
+  setTransform(a: number | Matrix, b?: number, c?: number, d?: number, e?: number, f?: number) {
+    this.transform = typeof a === 'number'
+      ? { a, b: b!, c: c!, d: d!, e: e!, f: f! }
+      : { a: a.a, b: a.b, c: a.c, d: a.d, e: a.e, f: a.f };
+  }
+
+  getTransform(): Matrix {
+    return { ...this.transform };
+  }
+
+  measureText(text: string) {
+    const size = parseFloat(/([\d.]+)px/.exec(this.font)?.[1] ?? '10');
+    return {
+      width: Array.from(text).length * size * 0.5,
+      fontBoundingBoxAscent: size * 0.8,
+      fontBoundingBoxDescent: size * 0.2,
+    };
+  }
+
+  createLinearGradient(...args: number[]): RecordedGradient {
+    return this.createGradient('linear', args);
+  }
+
+  createRadialGradient(...args: number[]): RecordedGradient {
+    return this.createGradient('radial', args);
+  }
+
+  createPattern(): null {
+    return null;
+  }
+
+  private createGradient(type: RecordedGradient['type'], args: number[]): RecordedGradient {
+    const gradient: RecordedGradient = {
+      type,
+      args,
+      stops: [],
+      addColorStop: (offset, color) => {
+        gradient.stops.push([offset, color]);
+      },
+    };
+    return gradient;
+  }
+}
+
+// A recording context typed as a real one, with the recorded calls exposed
+export function createRecordingContext(
+  width?: number,
+  height?: number
+): Canvas2DContext & Pick<RecordingContext, 'calls' | 'callsTo'> {
+  return new RecordingContext(width, height) as unknown as Canvas2DContext & Pick<RecordingContext, 'calls' | 'callsTo'>;
+}
+
+// Stand-in for OffscreenCanvas, so layers composited through a scratch
+// surface can be inspected
+export class RecordingCanvas {
+  context: RecordingContext;
+
+  constructor(public width: number, public height: number) {
+    this.context = new RecordingContext(width, height);
+    this.context.canvas = this;
+  }
+
+  getContext() {
+    return this.context;
+  }
+}
@@ -0,0 +1,26 @@
+import { CanvasState, TextLayer } from '@/types';
+import { createDefaultTextLayer } from '@/lib/utils';
+
+// A default layer at the origin with the given text and properties; text
+// without explicit spans is one plain run
+export function createLayer(overrides: Partial<TextLayer> = {}): TextLayer {
+  const text = overrides.text ?? 'Hello';
+  return {
+    ...createDefaultTextLayer(0, 0),
+    fontSize: 20,
+    text,
+    spans: [{ text }],
+    ...overrides,
+  };
+}
+
+export function createState(overrides: Partial<CanvasState> = {}): CanvasState {
+  return {
+    image: null,
+    imageWidth: 400,
+    imageHeight: 300,
+    textLayers: [],
+    selectedLayerIds: [],
+    ...overrides,
+  };
+}
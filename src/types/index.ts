@@ -1,6 +1,83 @@
+// Style overrides for a run of text; omitted fields fall back to the layer
+export interface TextStyle {
+  fontFamily?: string;
+  fontWeight?: string;
+  fontStyle?: 'normal' | 'italic';
+  color?: string;
+  fontSize?: number;
+  underline?: boolean;
+  strikethrough?: boolean;
+}
+
+export type TextTransform = 'none' | 'uppercase' | 'lowercase' | 'capitalize';
+
+// A gradient colour at `offset`, from 0 (start) to 1 (end)
+export interface GradientStop {
+  offset: number;
+  color: string;
+}
+
+// How glyphs are painted. Solid fills use the layer's and spans' colours;
+// gradients and images span the whole text box.
+export type TextFill =
+  | { type: 'solid' }
+  | { type: 'linear'; angle: number; stops: GradientStop[] }
+  | { type: 'radial'; stops: GradientStop[] }
+  // Repeating image (data URL); `scale` sizes one tile relative to the image
+  | { type: 'image'; image: string; scale: number };
+
+export type StrokeJoin = 'miter' | 'round' | 'bevel';
+
+// Text used as a mask instead of being painted. Image masks fill the glyphs
+// with the design's background and base image; knockouts cut the glyphs out
+// of a solid block around the text box (`padding` pixels beyond it) or over
+// the whole design.
+export type TextMask =
+  | { type: 'image' }
+  | { type: 'knockout'; color: string; padding: number; extent: 'box' | 'canvas' };
+
+// How a layer is composited onto what is beneath it, as in CSS mix-blend-mode
+export type BlendMode =
+  | 'normal'
+  | 'multiply'
+  | 'screen'
+  | 'overlay'
+  | 'darken'
+  | 'lighten'
+  | 'color-dodge'
+  | 'color-burn'
+  | 'hard-light'
+  | 'soft-light'
+  | 'difference'
+  | 'exclusion'
+  | 'hue'
+  | 'saturation'
+  | 'color'
+  | 'luminosity';
+
+export interface PathPoint {
+  x: number;
+  y: number;
+}
+
+// Baseline that text follows instead of a straight line. Arcs are circles
+// centred on the layer anchor, starting `startAngle` degrees clockwise from
+// the top; counter-clockwise arcs read upright along the bottom. Curves are
+// smooth Bézier paths through points in the layer's local frame.
+export type TextPath =
+  | { type: 'arc'; radius: number; startAngle: number; clockwise: boolean }
+  | { type: 'curve'; points: PathPoint[] };
+
+// A run of text sharing one style
+export interface TextSpan extends TextStyle {
+  text: string;
+}
+
 export interface TextLayer {
   id: string;
+  // Plain text, always the concatenation of `spans`
   text: string;
+  spans: TextSpan[];
   x: number;
   y: number;
   width: number;
@@ -8,9 +85,26 @@ export interface TextLayer {
   rotation: number;
   fontSize: number;
   fontFamily: string;
+  // Numeric CSS weight, '100' to '900'
   fontWeight: string;
+  fontStyle?: 'normal' | 'italic';
+  underline?: boolean;
+  strikethrough?: boolean;
+  // Extra space after each character, in pixels
+  letterSpacing?: number;
+  // Case shown on the canvas and in exports; the stored text is unchanged
+  textTransform?: TextTransform;
+  fill?: TextFill;
+  // Outline drawn behind the fill; the width is how far it shows past the glyphs
+  strokeWidth?: number;
+  strokeColor?: string;
+  strokeJoin?: StrokeJoin;
+  // Lays the text along an arc or curve; straight when omitted
+  path?: TextPath;
+  mask?: TextMask;
   color: string;
   opacity: number;
+  blendMode?: BlendMode;
   textAlign: 'left' | 'center' | 'right';
   isSelected: boolean;
   zIndex: number;
@@ -23,14 +117,46 @@ export interface TextLayer {
   backgroundColor?: string;
   borderWidth?: number;
   borderColor?: string;
+  // Maximum line width in pixels before wrapping; 0 disables wrapping
+  wrapWidth?: number;
+  // Line height as a multiple of the font size
+  lineHeight?: number;
+  // Fixed-box mode: `width` and `height` are set by the user, the text wraps
+  // to the width and the font size is fitted between the limits
+  autoFit?: boolean;
+  minFontSize?: number;
+  maxFontSize?: number;
+}
+
+export type CanvasBackground =
+  | { type: 'transparent' }
+  | { type: 'solid'; color: string }
+  | { type: 'gradient'; from: string; to: string; angle: number };
+
+// A ruler guide: vertical at x = `position` for axis 'x', horizontal at y = `position` for 'y'
+export interface Guide {
+  id: string;
+  axis: 'x' | 'y';
+  position: number;
 }
 
 export interface CanvasState {
+  // Original upload at full resolution
   image: string | null;
+  // Design (editing) dimensions; layer coordinates are in this space
   imageWidth: number;
   imageHeight: number;
+  // Pixel dimensions of the original image, used for export
+  sourceWidth?: number;
+  sourceHeight?: number;
+  // Fill painted beneath the image; transparent when omitted
+  background?: CanvasBackground;
   textLayers: TextLayer[];
-  selectedLayerId: string | null;
+  // Selected layers, in the order they were selected
+  selectedLayerIds: string[];
+  // Ruler guides, in design coordinates; locked guides can't be dragged
+  guides?: Guide[];
+  guidesLocked?: boolean;
 }
 
 export interface FontOption {
@@ -39,8 +165,21 @@ export interface FontOption {
   variants: string[];
 }
 
+export type ExportFormat = 'png' | 'jpg' | 'webp' | 'avif' | 'svg';
+
 export interface ExportOptions {
-  format: 'png' | 'jpg';
+  format: ExportFormat;
   quality: number;
   scale: number;
+  // Target size in pixels; overrides scale. With both set the design is
+  // scaled to cover the box and centre-cropped.
+  width?: number;
+  height?: number;
+}
+
+export interface ExportPreset extends ExportOptions {
+  id: string;
+  name: string;
+  // Supports {name}, {index}, {format}, {width}, {height}, {scale} and {date}
+  filenameTemplate: string;
 } 
\ No newline at end of file